@@ -0,0 +1,14 @@
+/*
+  Money columns move from DOUBLE PRECISION to exact DECIMAL.
+  Existing values are rounded to the column scale (cents for amounts).
+
+*/
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "totalAmount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ALTER COLUMN "unitPrice" SET DATA TYPE DECIMAL(12,4),
+ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2);
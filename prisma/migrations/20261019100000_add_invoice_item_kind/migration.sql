@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'activity';
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "InvoiceStatusChange" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "changedById" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceStatusChange_orgId_idx" ON "InvoiceStatusChange"("orgId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceStatusChange_invoiceId_idx" ON "InvoiceStatusChange"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceStatusChange" ADD CONSTRAINT "InvoiceStatusChange_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
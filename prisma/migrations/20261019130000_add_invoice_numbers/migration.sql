@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "nextInvoiceNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "invoiceNumber" TEXT,
+ADD COLUMN     "invoiceSequence" INTEGER;
+
+-- Backfill: number every invoice that has already been sent, per org, in send order
+WITH numbered AS (
+    SELECT i."id",
+           ROW_NUMBER() OVER (
+               PARTITION BY i."orgId"
+               ORDER BY COALESCE(i."sentAt", i."createdAt"), i."createdAt", i."id"
+           ) AS seq
+    FROM "Invoice" i
+    WHERE i."sentAt" IS NOT NULL OR i."status" IN ('sent', 'paid', 'overdue')
+)
+UPDATE "Invoice" i
+SET "invoiceSequence" = n.seq,
+    "invoiceNumber" = COALESCE(o."invoicePrefix", '') || LPAD(n.seq::TEXT, 5, '0')
+FROM numbered n, "Organization" o
+WHERE i."id" = n."id" AND o."id" = i."orgId";
+
+UPDATE "Organization" o
+SET "nextInvoiceNumber" = COALESCE(
+    (SELECT MAX(i."invoiceSequence") FROM "Invoice" i WHERE i."orgId" = o."id"), 0
+) + 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_orgId_invoiceSequence_key" ON "Invoice"("orgId", "invoiceSequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_orgId_invoiceNumber_key" ON "Invoice"("orgId", "invoiceNumber");
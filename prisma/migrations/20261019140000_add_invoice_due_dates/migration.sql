@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "lateFeeAppliedAt" TIMESTAMP(3);
+
+-- Backfill: issued invoices are due sentAt + the org's payment terms (default 14 days)
+UPDATE "Invoice" i
+SET "dueDate" = COALESCE(i."sentAt", i."periodEnd") + make_interval(days => (
+    CASE
+        WHEN jsonb_typeof(o."billingRulesJson"->'paymentTermsDays') = 'number'
+            THEN (o."billingRulesJson"->>'paymentTermsDays')::INTEGER
+        ELSE 14
+    END
+))
+FROM "Organization" o
+WHERE o."id" = i."orgId" AND i."status" IN ('sent', 'paid', 'overdue');
+
+-- CreateIndex
+CREATE INDEX "Invoice_status_dueDate_idx" ON "Invoice"("status", "dueDate");
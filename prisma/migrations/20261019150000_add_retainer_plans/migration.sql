@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "retainerPlanId" TEXT,
+ADD COLUMN     "servicePeriodStart" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "RetainerPlan" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL DEFAULT 'Care management retainer',
+    "amount" DECIMAL(12,2) NOT NULL,
+    "cadence" TEXT NOT NULL DEFAULT 'monthly',
+    "includedHours" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "overageRate" DECIMAL(12,2),
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RetainerPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RetainerPlan_orgId_idx" ON "RetainerPlan"("orgId");
+
+-- CreateIndex
+CREATE INDEX "RetainerPlan_clientId_idx" ON "RetainerPlan"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceItem" ADD CONSTRAINT "InvoiceItem_retainerPlanId_fkey" FOREIGN KEY ("retainerPlanId") REFERENCES "RetainerPlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RetainerPlan" ADD CONSTRAINT "RetainerPlan_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RetainerPlan" ADD CONSTRAINT "RetainerPlan_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "billingPartyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BillingParty" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "partyType" TEXT NOT NULL DEFAULT 'family',
+    "relationship" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "address" TEXT,
+    "sharePercent" DECIMAL(5,2),
+    "fixedAmount" DECIMAL(12,2),
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BillingParty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoicePartyShare" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "billingPartyId" TEXT NOT NULL,
+    "sharePercent" DECIMAL(5,2),
+    "fixedAmount" DECIMAL(12,2),
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoicePartyShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BillingParty_orgId_idx" ON "BillingParty"("orgId");
+
+-- CreateIndex
+CREATE INDEX "BillingParty_clientId_idx" ON "BillingParty"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoicePartyShare_invoiceId_billingPartyId_key" ON "InvoicePartyShare"("invoiceId", "billingPartyId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_billingPartyId_fkey" FOREIGN KEY ("billingPartyId") REFERENCES "BillingParty"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BillingParty" ADD CONSTRAINT "BillingParty_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BillingParty" ADD CONSTRAINT "BillingParty_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoicePartyShare" ADD CONSTRAINT "InvoicePartyShare_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoicePartyShare" ADD CONSTRAINT "InvoicePartyShare_billingPartyId_fkey" FOREIGN KEY ("billingPartyId") REFERENCES "BillingParty"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "npi" TEXT,
+ADD COLUMN     "taxId" TEXT;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "npi" TEXT;
+
+-- CreateTable
+CREATE TABLE "ClaimBatch" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "exportedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClaimBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Claim" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientInsuranceId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "payerName" TEXT NOT NULL,
+    "insuranceType" TEXT,
+    "memberId" TEXT NOT NULL,
+    "groupNumber" TEXT,
+    "policyNumber" TEXT,
+    "diagnosisCode" TEXT,
+    "totalCharge" DECIMAL(12,2) NOT NULL,
+    "paidAmount" DECIMAL(12,2),
+    "payerClaimNumber" TEXT,
+    "denialReason" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "adjudicatedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Claim_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClaimLine" (
+    "id" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "activityId" TEXT NOT NULL,
+    "serviceDate" TIMESTAMP(3) NOT NULL,
+    "procedureCode" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "chargeAmount" DECIMAL(12,2) NOT NULL,
+    "renderingProviderName" TEXT NOT NULL,
+    "renderingProviderNpi" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClaimLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClaimBatch_orgId_idx" ON "ClaimBatch"("orgId");
+
+-- CreateIndex
+CREATE INDEX "Claim_orgId_idx" ON "Claim"("orgId");
+
+-- CreateIndex
+CREATE INDEX "Claim_batchId_idx" ON "Claim"("batchId");
+
+-- CreateIndex
+CREATE INDEX "Claim_clientId_idx" ON "Claim"("clientId");
+
+-- CreateIndex
+CREATE INDEX "Claim_status_idx" ON "Claim"("status");
+
+-- CreateIndex
+CREATE INDEX "ClaimLine_claimId_idx" ON "ClaimLine"("claimId");
+
+-- CreateIndex
+CREATE INDEX "ClaimLine_activityId_idx" ON "ClaimLine"("activityId");
+
+-- AddForeignKey
+ALTER TABLE "ClaimBatch" ADD CONSTRAINT "ClaimBatch_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ClaimBatch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_clientInsuranceId_fkey" FOREIGN KEY ("clientInsuranceId") REFERENCES "ClientInsurance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClaimLine" ADD CONSTRAINT "ClaimLine_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "Claim"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClaimLine" ADD CONSTRAINT "ClaimLine_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
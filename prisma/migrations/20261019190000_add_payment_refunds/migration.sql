@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'payment',
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "refundOfId" TEXT,
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Payment_refundOfId_idx" ON "Payment"("refundOfId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_refundOfId_fkey" FOREIGN KEY ("refundOfId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
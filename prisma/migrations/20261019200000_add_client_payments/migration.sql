@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "clientPaymentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ClientPayment" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "billingPartyId" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'completed',
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClientPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClientPayment_orgId_idx" ON "ClientPayment"("orgId");
+
+-- CreateIndex
+CREATE INDEX "ClientPayment_clientId_idx" ON "ClientPayment"("clientId");
+
+-- CreateIndex
+CREATE INDEX "Payment_clientPaymentId_idx" ON "Payment"("clientPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_clientPaymentId_fkey" FOREIGN KEY ("clientPaymentId") REFERENCES "ClientPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientPayment" ADD CONSTRAINT "ClientPayment_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientPayment" ADD CONSTRAINT "ClientPayment_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientPayment" ADD CONSTRAINT "ClientPayment_billingPartyId_fkey" FOREIGN KEY ("billingPartyId") REFERENCES "BillingParty"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "InvoiceDelivery" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'email',
+    "trigger" TEXT NOT NULL,
+    "recipient" TEXT,
+    "subject" TEXT,
+    "status" TEXT NOT NULL,
+    "transport" TEXT,
+    "messageId" TEXT,
+    "paymentLinkUrl" TEXT,
+    "error" TEXT,
+    "bouncedAt" TIMESTAMP(3),
+    "sentById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceDelivery_orgId_idx" ON "InvoiceDelivery"("orgId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceDelivery_invoiceId_idx" ON "InvoiceDelivery"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceDelivery_messageId_idx" ON "InvoiceDelivery"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceDelivery" ADD CONSTRAINT "InvoiceDelivery_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "remindersPausedAt" TIMESTAMP(3),
+ADD COLUMN     "remindersPausedReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "InvoiceReminder" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "offsetDays" INTEGER NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "error" TEXT,
+    "deliveryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceReminder_orgId_idx" ON "InvoiceReminder"("orgId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceReminder_invoiceId_offsetDays_key" ON "InvoiceReminder"("invoiceId", "offsetDays");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceReminder" ADD CONSTRAINT "InvoiceReminder_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceReminder" ADD CONSTRAINT "InvoiceReminder_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "InvoiceDelivery"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "pdfGeneratedAt" TIMESTAMP(3),
+ADD COLUMN     "pdfStorageKey" TEXT;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "exchangeRate" DECIMAL(18,8);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_orgId_baseCurrency_idx" ON "ExchangeRate"("orgId", "baseCurrency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_orgId_currency_baseCurrency_effectiveDate_key" ON "ExchangeRate"("orgId", "currency", "baseCurrency", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ClientPayment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- Existing client payments were received in the org currency
+UPDATE "ClientPayment" cp
+SET "currency" = o."currencyCode"
+FROM "Organization" o
+WHERE o."id" = cp."orgId";
+
+ALTER TABLE "ClientPayment" ALTER COLUMN "currency" DROP DEFAULT;
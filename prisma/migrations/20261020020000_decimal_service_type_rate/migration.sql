@@ -0,0 +1,7 @@
+/*
+  Service type rates move from DOUBLE PRECISION to exact DECIMAL, like
+  the other money columns (20261019090000_decimal_money).
+
+*/
+-- AlterTable
+ALTER TABLE "ServiceType" ALTER COLUMN "rateAmount" SET DATA TYPE DECIMAL(12,4);
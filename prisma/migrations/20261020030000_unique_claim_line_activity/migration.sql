@@ -0,0 +1,6 @@
+-- An activity is claimed at most once; two concurrent batches could
+-- otherwise both claim it
+DROP INDEX "ClaimLine_activityId_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClaimLine_activityId_key" ON "ClaimLine"("activityId");
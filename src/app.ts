@@ -9,16 +9,28 @@ import activitiesRoutes from "./routes/activities";
 import aiRoutes from "./routes/ai";
 import invoicesRoutes from "./routes/invoices";
 import paymentsRoutes from "./routes/payments";
+import clientPaymentsRoutes from "./routes/clientPayments";
 import dashboardRoutes from "./routes/dashboard";
 import reportsRoutes from "./routes/reports";
 import { authMiddleware } from "./middleware/auth";
+import { validate } from "./middleware/validate";
 import usersRoutes from "./routes/users";
 import billingRulesRoutes from "./routes/billingRules";
 import stripeRouter, { stripeWebhookHandler } from "./routes/stripe";
 import serviceTypesRoutes from "./routes/serviceTypes";
 import cmDashboardRoutes from "./routes/cmDashboard";
 import { errorHandler } from "./middleware/errorHandler";
+import { moneyJsonReplacer } from "./services/money";
 import orgRouter from "./routes/org";
+import claimsRoutes from "./routes/claims";
+import exchangeRatesRoutes from "./routes/exchangeRates";
+import webhooksRoutes, {
+  emailWebhookHandler,
+  emailWebhookSchema,
+} from "./routes/webhooks";
+import { startOverdueJob } from "./jobs/overdueInvoices";
+import { startReminderJob } from "./jobs/paymentReminders";
+import { startExchangeRateJob } from "./jobs/exchangeRates";
 
 
 
@@ -28,6 +40,9 @@ dotenv.config();
 const app = express();
 const prisma = new PrismaClient();
 
+// 🔹 Money (Prisma Decimal) goes out as JSON numbers
+app.set("json replacer", moneyJsonReplacer);
+
 // 🔹 CORS – allow all origins for now (Vercel + local)
 app.use(
   cors({
@@ -49,6 +64,13 @@ app.use(express.json());
 // 🔹 Public routes
 app.use("/api/auth", authRoutes);
 
+// 🔹 Email provider events (bounces); checked against a shared secret
+app.post(
+  "/api/email/webhook",
+  validate(emailWebhookSchema),
+  emailWebhookHandler
+);
+
 app.get("/api/health", (_req, res) => {
   res.json({ ok: true });
 });
@@ -59,11 +81,14 @@ app.use("/api/activities", authMiddleware, activitiesRoutes);
 app.use("/api/ai", authMiddleware, aiRoutes);
 app.use("/api/invoices", authMiddleware, invoicesRoutes);
 app.use("/api/payments", authMiddleware, paymentsRoutes);
+app.use("/api/client-payments", authMiddleware, clientPaymentsRoutes);
 app.use("/api/dashboard", authMiddleware, dashboardRoutes);
 app.use("/api/reports", authMiddleware, reportsRoutes);
 app.use("/api/service-types", authMiddleware, serviceTypesRoutes);
 app.use("/api/cm", authMiddleware, cmDashboardRoutes);
-app.use(errorHandler);
+app.use("/api/claims", authMiddleware, claimsRoutes);
+app.use("/api/exchange-rates", authMiddleware, exchangeRatesRoutes);
+app.use("/api/webhooks", authMiddleware, webhooksRoutes);
 
 
 
@@ -74,14 +99,22 @@ app.use("/api/users", authMiddleware, usersRoutes);
 // 🔹 Org billing rules (GET for any authed user, POST is admin-only inside the route)
 app.use("/api/billing/rules", authMiddleware, billingRulesRoutes);
 
-// 🔹 Non-webhook Stripe routes (currently stubbed)
+// 🔹 Non-webhook Stripe routes (config is public, checkout needs auth)
 app.use("/api/stripe", stripeRouter);
 
 app.use("/api/org", authMiddleware, orgRouter);
 
+// 🔹 Error handler last, so validation errors from every router above reach it
+app.use(errorHandler);
+
 
 const PORT = process.env.PORT || 4000;
 
 app.listen(PORT, () => {
   console.log(`Backend API running on port ${PORT}`);
 });
+
+// 🔹 Background jobs
+startOverdueJob();
+startReminderJob();
+startExchangeRateJob();
@@ -0,0 +1,109 @@
+// src/jobs/exchangeRates.ts
+import fs from "fs/promises";
+import path from "path";
+import { PrismaClient } from "@prisma/client";
+import {
+  parseExchangeRateFile,
+  saveExchangeRates,
+} from "../services/exchangeRates";
+
+const prisma = new PrismaClient();
+
+export interface RateFileImportResult {
+  file: string;
+  imported: { orgId: string; count: number }[];
+  failed: { orgId: string; error: string }[];
+}
+
+/**
+ * Load the shared rates file (EXCHANGE_RATES_FILE, .json or .csv) into
+ * every org. Rows without a baseCurrency are read against each org's own
+ * currency; a row for the org's own currency is skipped. Re-running with
+ * the same file just rewrites the same rates.
+ */
+export async function runExchangeRateFileImport(
+  options: { file?: string; orgId?: string } = {}
+): Promise<RateFileImportResult> {
+  const file = options.file ?? process.env.EXCHANGE_RATES_FILE;
+  if (!file) throw new Error("EXCHANGE_RATES_FILE is not set");
+
+  const content = await fs.readFile(file, "utf8");
+  const format =
+    path.extname(file).toLowerCase() === ".json" ? "json" : "csv";
+  const rows = parseExchangeRateFile(content, format);
+
+  const orgs = await prisma.organization.findMany({
+    where: options.orgId ? { id: options.orgId } : {},
+    select: { id: true, currencyCode: true },
+  });
+
+  const result: RateFileImportResult = { file, imported: [], failed: [] };
+
+  for (const org of orgs) {
+    const base = org.currencyCode || "USD";
+    const rates = rows.filter(
+      (row) =>
+        row.baseCurrency ||
+        row.currency.trim().toUpperCase() !== base
+    );
+    if (!rates.length) continue;
+
+    try {
+      const saved = await saveExchangeRates({
+        orgId: org.id,
+        rates,
+        source: "file",
+        createdById: null,
+      });
+      result.imported.push({ orgId: org.id, count: saved.length });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error(`Error importing exchange rates for org ${org.id}:`, err);
+      result.failed.push({ orgId: org.id, error });
+    }
+  }
+
+  return result;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 24 * 60;
+
+/**
+ * Import EXCHANGE_RATES_FILE on startup and then every
+ * EXCHANGE_RATES_JOB_INTERVAL_MINUTES (default daily), so a file kept
+ * current by an external feed stays loaded. Off when no file is set or
+ * EXCHANGE_RATES_JOB_DISABLED=true.
+ */
+export function startExchangeRateJob() {
+  if (!process.env.EXCHANGE_RATES_FILE) return null;
+  if (process.env.EXCHANGE_RATES_JOB_DISABLED === "true") return null;
+
+  const minutes =
+    Number(process.env.EXCHANGE_RATES_JOB_INTERVAL_MINUTES) ||
+    DEFAULT_INTERVAL_MINUTES;
+
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const result = await runExchangeRateFileImport();
+      const count = result.imported.reduce((n, org) => n + org.count, 0);
+      console.log(
+        `Exchange rate job: ${count} rates imported from ${result.file}, ` +
+          `${result.failed.length} orgs failed`
+      );
+    } catch (err) {
+      console.error("Error running exchange rate job:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+}
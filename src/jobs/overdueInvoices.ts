@@ -0,0 +1,162 @@
+// src/jobs/overdueInvoices.ts
+import { PrismaClient } from "@prisma/client";
+import { normalizeStoredOrgRules } from "../services/billingRules";
+import { snapshotInvoiceSplit } from "../services/billingSplits";
+import { transitionInvoice } from "../services/invoiceLifecycle";
+import { lateFeeAmount } from "../services/invoiceOverdue";
+import {
+  invoiceBalance,
+  recomputeInvoiceTotal,
+} from "../services/invoiceTotals";
+import { Money } from "../services/money";
+
+const prisma = new PrismaClient();
+
+export interface OverdueSweepResult {
+  checked: number;
+  markedOverdue: string[];
+  lateFeesApplied: { invoiceId: string; amount: Money }[];
+  failed: { invoiceId: string; error: string }[];
+}
+
+/**
+ * Move every past-due "sent" invoice to "overdue" and apply late fees.
+ * Safe to run repeatedly: invoices already overdue are skipped and a late
+ * fee is applied at most once per invoice.
+ */
+export async function runOverdueSweep(
+  options: { orgId?: string; now?: Date } = {}
+): Promise<OverdueSweepResult> {
+  const now = options.now ?? new Date();
+
+  const candidates = await prisma.invoice.findMany({
+    where: {
+      ...(options.orgId ? { orgId: options.orgId } : {}),
+      status: "sent",
+      dueDate: { lt: now },
+    },
+    select: { id: true },
+    orderBy: { dueDate: "asc" },
+  });
+
+  const result: OverdueSweepResult = {
+    checked: candidates.length,
+    markedOverdue: [],
+    lateFeesApplied: [],
+    failed: [],
+  };
+
+  for (const { id } of candidates) {
+    try {
+      const fee = await prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.findUniqueOrThrow({
+          where: { id },
+          include: {
+            payments: true,
+            creditNotes: true,
+            org: { select: { billingRulesJson: true } },
+          },
+        });
+
+        // Another run (or a payment) got here first
+        if (invoice.status !== "sent") return undefined;
+
+        await transitionInvoice(tx, {
+          orgId: invoice.orgId,
+          invoiceId: invoice.id,
+          to: "overdue",
+          changedById: null,
+          reason: `Past due date ${invoice.dueDate?.toISOString().slice(0, 10)}`,
+        });
+
+        if (invoice.lateFeeAppliedAt) return null;
+
+        const { balance } = invoiceBalance(
+          invoice.totalAmount,
+          invoice.payments,
+          invoice.creditNotes
+        );
+        const amount = lateFeeAmount(balance, invoice.org.billingRulesJson);
+        if (!amount) return null;
+
+        const percent = normalizeStoredOrgRules(
+          invoice.org.billingRulesJson
+        ).lateFeePercent;
+
+        await tx.invoiceItem.create({
+          data: {
+            invoiceId: invoice.id,
+            kind: "late_fee",
+            description: `Late fee (${percent}% of ${balance.toFixed(2)})`,
+            quantity: 1,
+            unitPrice: amount,
+            amount,
+          },
+        });
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: { lateFeeAppliedAt: now },
+        });
+        await recomputeInvoiceTotal(tx, invoice.id);
+        // Spread the fee across the responsible parties
+        await snapshotInvoiceSplit(tx, invoice.id);
+
+        return amount;
+      });
+
+      if (fee === undefined) continue;
+      result.markedOverdue.push(id);
+      if (fee) result.lateFeesApplied.push({ invoiceId: id, amount: fee });
+    } catch (err) {
+      console.error(`Error marking invoice ${id} overdue:`, err);
+      result.failed.push({
+        invoiceId: id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return result;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Run the sweep on startup and then every OVERDUE_JOB_INTERVAL_MINUTES
+ * (default 60). Set OVERDUE_JOB_DISABLED=true to turn it off, e.g. when a
+ * separate worker or external cron calls POST /api/invoices/overdue/run.
+ */
+export function startOverdueJob() {
+  if (process.env.OVERDUE_JOB_DISABLED === "true") return null;
+
+  const minutes =
+    Number(process.env.OVERDUE_JOB_INTERVAL_MINUTES) ||
+    DEFAULT_INTERVAL_MINUTES;
+
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const result = await runOverdueSweep();
+      if (result.markedOverdue.length || result.failed.length) {
+        console.log(
+          `Overdue job: ${result.markedOverdue.length} marked overdue, ` +
+            `${result.lateFeesApplied.length} late fees, ` +
+            `${result.failed.length} failed`
+        );
+      }
+    } catch (err) {
+      console.error("Error running overdue job:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+}
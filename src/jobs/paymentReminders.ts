@@ -0,0 +1,257 @@
+// src/jobs/paymentReminders.ts
+import { Prisma, PrismaClient } from "@prisma/client";
+import { sendInvoiceEmail } from "../services/invoiceDelivery";
+import { displayInvoiceNumber } from "../services/invoiceNumbers";
+import { invoiceBalance } from "../services/invoiceTotals";
+import {
+  dueReminderStep,
+  reminderCopy,
+  reminderSchedule,
+  MAX_REMINDER_ATTEMPTS,
+} from "../services/paymentReminders";
+
+const prisma = new PrismaClient();
+
+export interface ReminderSweepResult {
+  checked: number;
+  sent: { invoiceId: string; offsetDays: number }[];
+  skipped: { invoiceId: string; offsetDays: number; reason: string }[];
+  failed: { invoiceId: string; offsetDays?: number; error: string }[];
+}
+
+/**
+ * Helper: claim a reminder step so concurrent runs can't both send it.
+ * Returns the reminder id, or null when the step is already handled.
+ */
+async function claimReminder(params: {
+  orgId: string;
+  invoiceId: string;
+  offsetDays: number;
+  scheduledFor: Date;
+}): Promise<string | null> {
+  const existing = await prisma.invoiceReminder.findUnique({
+    where: {
+      invoiceId_offsetDays: {
+        invoiceId: params.invoiceId,
+        offsetDays: params.offsetDays,
+      },
+    },
+  });
+
+  if (!existing) {
+    try {
+      const created = await prisma.invoiceReminder.create({
+        data: { ...params, status: "sending" },
+      });
+      return created.id;
+    } catch (err) {
+      // Another run created it first
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  // Retry a failed send a limited number of times
+  const claimed = await prisma.invoiceReminder.updateMany({
+    where: {
+      id: existing.id,
+      status: "failed",
+      attempts: { lt: MAX_REMINDER_ATTEMPTS },
+    },
+    data: { status: "sending", attempts: { increment: 1 } },
+  });
+  return claimed.count ? existing.id : null;
+}
+
+/**
+ * Email the latest due reminder step for every open invoice with a
+ * balance. Safe to run repeatedly: each step is sent at most once per
+ * invoice (failed sends are retried up to MAX_REMINDER_ATTEMPTS).
+ */
+export async function runReminderSweep(
+  options: { orgId?: string; now?: Date } = {}
+): Promise<ReminderSweepResult> {
+  const now = options.now ?? new Date();
+
+  const orgs = await prisma.organization.findMany({
+    where: options.orgId ? { id: options.orgId } : {},
+    select: { id: true, name: true, billingRulesJson: true },
+  });
+
+  const result: ReminderSweepResult = {
+    checked: 0,
+    sent: [],
+    skipped: [],
+    failed: [],
+  };
+
+  for (const org of orgs) {
+    const schedule = reminderSchedule(org.billingRulesJson);
+    if (!schedule.length) continue;
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        orgId: org.id,
+        status: { in: ["sent", "overdue"] },
+        dueDate: { not: null },
+        client: { remindersPausedAt: null },
+      },
+      include: {
+        payments: true,
+        creditNotes: true,
+        reminders: { select: { offsetDays: true, status: true } },
+      },
+      orderBy: { dueDate: "asc" },
+    });
+
+    for (const invoice of invoices) {
+      result.checked += 1;
+
+      const { balance } = invoiceBalance(
+        invoice.totalAmount,
+        invoice.payments,
+        invoice.creditNotes
+      );
+      if (balance.lte(0)) continue;
+
+      const step = dueReminderStep({
+        dueDate: invoice.dueDate!,
+        sentAt: invoice.sentAt,
+        schedule,
+        now,
+      });
+      if (!step) continue;
+
+      // A later step already went out (e.g. the schedule was edited)
+      if (
+        invoice.reminders.some(
+          (r) => r.offsetDays > step.offsetDays && r.status !== "failed"
+        )
+      ) {
+        continue;
+      }
+
+      let reminderId: string | null = null;
+      try {
+        reminderId = await claimReminder({
+          orgId: org.id,
+          invoiceId: invoice.id,
+          ...step,
+        });
+        if (!reminderId) continue;
+
+        const copy = reminderCopy({
+          offsetDays: step.offsetDays,
+          invoiceNumber: displayInvoiceNumber(invoice),
+          orgName: org.name,
+          dueDate: invoice.dueDate!,
+        });
+
+        const delivery = await sendInvoiceEmail({
+          orgId: org.id,
+          invoiceId: invoice.id,
+          trigger: "reminder",
+          subject: copy.subject,
+          intro: copy.intro,
+          sentById: null,
+        });
+
+        // Delivery statuses sent | failed | skipped map one to one
+        await prisma.invoiceReminder.update({
+          where: { id: reminderId },
+          data: {
+            status: delivery.status,
+            deliveryId: delivery.id,
+            error: delivery.error,
+          },
+        });
+
+        if (delivery.status === "sent") {
+          result.sent.push({ invoiceId: invoice.id, ...step });
+        } else if (delivery.status === "skipped") {
+          result.skipped.push({
+            invoiceId: invoice.id,
+            offsetDays: step.offsetDays,
+            reason: delivery.error ?? "Skipped",
+          });
+        } else {
+          result.failed.push({
+            invoiceId: invoice.id,
+            offsetDays: step.offsetDays,
+            error: delivery.error ?? "Send failed",
+          });
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        console.error(`Error sending reminder for invoice ${invoice.id}:`, err);
+        result.failed.push({
+          invoiceId: invoice.id,
+          offsetDays: step.offsetDays,
+          error,
+        });
+
+        // Release the claim so a later run retries it
+        if (reminderId) {
+          await prisma.invoiceReminder
+            .update({
+              where: { id: reminderId },
+              data: { status: "failed", error },
+            })
+            .catch((updateErr) =>
+              console.error("Error releasing reminder claim:", updateErr)
+            );
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Run the reminder sweep on startup and then every
+ * REMINDER_JOB_INTERVAL_MINUTES (default 60). Set
+ * REMINDER_JOB_DISABLED=true to turn it off, e.g. when an external cron
+ * calls POST /api/invoices/reminders/run.
+ */
+export function startReminderJob() {
+  if (process.env.REMINDER_JOB_DISABLED === "true") return null;
+
+  const minutes =
+    Number(process.env.REMINDER_JOB_INTERVAL_MINUTES) ||
+    DEFAULT_INTERVAL_MINUTES;
+
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const result = await runReminderSweep();
+      if (result.sent.length || result.failed.length) {
+        console.log(
+          `Reminder job: ${result.sent.length} sent, ` +
+            `${result.skipped.length} skipped, ` +
+            `${result.failed.length} failed`
+        );
+      }
+    } catch (err) {
+      console.error("Error running reminder job:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+}
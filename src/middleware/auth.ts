@@ -27,6 +27,18 @@ export function authMiddleware(
       process.env.JWT_SECRET || "secret"
     ) as any;
 
+    // Only login tokens: purpose-bound tokens (e.g. payment links) and
+    // tokens without a user never authenticate API calls
+    if (
+      !decoded ||
+      decoded.purpose !== undefined ||
+      typeof decoded.userId !== "string" ||
+      typeof decoded.orgId !== "string" ||
+      typeof decoded.role !== "string"
+    ) {
+      return res.status(401).json({ error: "Invalid or expired token" });
+    }
+
     req.user = {
       userId: decoded.userId,
       orgId: decoded.orgId,
@@ -13,6 +13,16 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Helper: field-level details for a ZodError, in the standard error shape.
+ */
+export function formatZodIssues(err: ZodError) {
+  return err.issues.map((i) => ({
+    path: i.path.join("."),
+    message: i.message,
+  }));
+}
+
 export function errorHandler(
   err: any,
   req: Request,
@@ -25,10 +35,7 @@ export function errorHandler(
   if (err instanceof ZodError) {
     return res.status(400).json({
       error: "Validation error",
-      details: err.issues.map((i) => ({
-        path: i.path.join("."),
-        message: i.message,
-      })),
+      details: formatZodIssues(err),
     });
   }
 
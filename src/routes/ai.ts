@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { AuthRequest } from "../middleware/auth";
+import { overdueInvoiceWhere } from "../services/invoiceOverdue";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -118,7 +119,7 @@ router.post("/simulate-activities", async (req: AuthRequest, res) => {
  * GET /api/ai/alerts
  * Returns:
  *  - flaggedActivities: up to 10 flagged activities
- *  - overdueInvoices: (placeholder for now, empty if no invoices)
+ *  - overdueInvoices: invoices past their due date
  */
 
 router.get("/alerts", async (req: AuthRequest, res) => {
@@ -140,26 +141,14 @@ router.get("/alerts", async (req: AuthRequest, res) => {
       take: 10,
     });
 
-    // Simple overdue definition:
-    // - status = "sent"
-    // - periodEnd is more than 14 days ago
-    const now = new Date();
-    const fourteenDaysMs = 14 * 24 * 60 * 60 * 1000;
-    const cutoff = new Date(now.getTime() - fourteenDaysMs);
-
+    // Overdue: past the due date set from the org's payment terms
     const overdueInvoices = await prisma.invoice.findMany({
-      where: {
-        orgId: req.user.orgId,
-        status: "sent",
-        periodEnd: {
-          lt: cutoff,
-        },
-      },
+      where: overdueInvoiceWhere(req.user.orgId),
       include: {
         client: true,
       },
       orderBy: {
-        periodEnd: "asc",
+        dueDate: "asc",
       },
     });
 
@@ -1,13 +1,26 @@
 import { Router, Response } from "express";
 import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
 import { AuthRequest } from "../middleware/auth";
 import { requireAdmin } from "../middleware/requireAdmin";
+import { validate } from "../middleware/validate";
+import {
+  normalizeStoredOrgRules,
+  orgBillingRulesSchema,
+  OrgBillingRules,
+} from "../services/billingRules";
 
 const prisma = new PrismaClient();
 const router = Router();
 
+const saveRulesSchema = z.object({
+  rules: orgBillingRulesSchema,
+});
+
 /**
  * GET /api/billing/rules
+ * Returns the org rule document in the current versioned shape
+ * (legacy documents are upgraded on read).
  */
 router.get("/", async (req: AuthRequest, res: Response) => {
   try {
@@ -21,7 +34,7 @@ router.get("/", async (req: AuthRequest, res: Response) => {
 
     return res.json({
       ok: true,
-      rules: org?.billingRulesJson ?? {},
+      rules: normalizeStoredOrgRules(org?.billingRulesJson),
     });
   } catch (err) {
     console.error("Error fetching billing rules:", err);
@@ -32,28 +45,44 @@ router.get("/", async (req: AuthRequest, res: Response) => {
 /**
  * POST /api/billing/rules
  * ADMIN ONLY
+ * Body: { rules } – validated against the versioned org rule schema;
+ * invalid documents are rejected with field-level errors. Merged into the
+ * stored document: keys not in the body are kept.
  */
-router.post("/", requireAdmin, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user)
-      return res.status(401).json({ error: "Unauthorized" });
+router.post(
+  "/",
+  requireAdmin,
+  validate(saveRulesSchema),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user)
+        return res.status(401).json({ error: "Unauthorized" });
 
-    const { rules } = req.body;
+      const { rules } = req.body as { rules: OrgBillingRules };
 
-    if (!rules || typeof rules !== "object") {
-      return res.status(400).json({ error: "Invalid rules JSON." });
-    }
+      const org = await prisma.organization.findUnique({
+        where: { id: req.user.orgId },
+        select: { billingRulesJson: true },
+      });
 
-    const updated = await prisma.organization.update({
-      where: { id: req.user.orgId },
-      data: { billingRulesJson: rules },
-    });
+      // Keys left out keep their stored values (invoice settings, locale,
+      // reminder schedule…)
+      const updated = await prisma.organization.update({
+        where: { id: req.user.orgId },
+        data: {
+          billingRulesJson: {
+            ...normalizeStoredOrgRules(org?.billingRulesJson),
+            ...rules,
+          },
+        },
+      });
 
-    return res.json({ ok: true, rules: updated.billingRulesJson });
-  } catch (err) {
-    console.error("Error saving billing rules:", err);
-    return res.status(500).json({ error: "Failed to save billing rules." });
+      return res.json({ ok: true, rules: updated.billingRulesJson });
+    } catch (err) {
+      console.error("Error saving billing rules:", err);
+      return res.status(500).json({ error: "Failed to save billing rules." });
+    }
   }
-});
+);
 
 export default router;
@@ -0,0 +1,519 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import PDFDocument from "pdfkit";
+import { AuthRequest } from "../middleware/auth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { validate } from "../middleware/validate";
+import { AppError } from "../middleware/errorHandler";
+import {
+  CLAIM_STATUSES,
+  createClaimBatch,
+  isClaimStatus,
+  updateClaimStatus,
+} from "../services/claims";
+import { render837P, renderCms1500 } from "../services/claimExport";
+import { sumMoney } from "../services/money";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+/**
+ * Helper: write an AuditLog entry for claim changes.
+ */
+async function logAudit(
+  req: AuthRequest,
+  params: {
+    entityType: string;
+    entityId?: string;
+    action: string;
+    details?: string;
+  }
+) {
+  if (!req.user) return;
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        orgId: req.user.orgId,
+        userId: req.user.userId,
+        entityType: params.entityType,
+        entityId: params.entityId ?? null,
+        action: params.action,
+        details: params.details ?? null,
+      },
+    });
+  } catch (err) {
+    // Never let audit logging crash the main request
+    console.error("Error writing claim audit log:", err);
+  }
+}
+
+const createClaimBatchSchema = z.object({
+  periodStart: z.string().min(1, "periodStart is required"),
+  periodEnd: z.string().min(1, "periodEnd is required"),
+  clientIds: z.array(z.string().min(1)).optional(),
+});
+
+const updateClaimStatusSchema = z.object({
+  status: z.enum(CLAIM_STATUSES),
+  payerClaimNumber: z.string().max(50).nullable().optional(),
+  paidAmount: z.number().nonnegative().nullable().optional(),
+  denialReason: z.string().max(500).nullable().optional(),
+});
+
+function countByStatus(claims: { status: string }[]) {
+  const counts: Record<string, number> = {};
+  for (const claim of claims) {
+    counts[claim.status] = (counts[claim.status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Helper: a batch with everything the exports need, scoped to the org.
+ */
+async function loadBatchForExport(orgId: string, batchId: string) {
+  const [batch, org] = await Promise.all([
+    prisma.claimBatch.findFirst({
+      where: { id: batchId, orgId },
+      include: {
+        claims: {
+          include: {
+            client: true,
+            lines: { orderBy: { serviceDate: "asc" } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    }),
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: {
+        id: true,
+        name: true,
+        contactEmail: true,
+        npi: true,
+        taxId: true,
+      },
+    }),
+  ]);
+
+  if (!batch || !org) return null;
+  return { batch, org };
+}
+
+/**
+ * Helper: claim filter for the caller – care managers only see claims for
+ * their own clients.
+ */
+function claimScope(req: AuthRequest) {
+  return req.user?.role === "care_manager"
+    ? { client: { primaryCMId: req.user.userId } }
+    : {};
+}
+
+/**
+ * GET /api/claims/batches
+ * Claim batches, newest first, with claim counts and total charges.
+ * Care managers only see batches (and counts) for their own clients.
+ */
+router.get("/batches", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const scope = claimScope(req);
+
+    const batches = await prisma.claimBatch.findMany({
+      where: {
+        orgId: req.user.orgId,
+        ...(req.user.role === "care_manager"
+          ? { claims: { some: scope } }
+          : {}),
+      },
+      include: {
+        claims: {
+          where: scope,
+          select: { status: true, totalCharge: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json(
+      batches.map(({ claims, ...batch }) => ({
+        ...batch,
+        claimCount: claims.length,
+        totalCharge: sumMoney(claims.map((c) => c.totalCharge)),
+        statusCounts: countByStatus(claims),
+      }))
+    );
+  } catch (err) {
+    console.error("Error fetching claim batches:", err);
+    res.status(500).json({ error: "Failed to fetch claim batches" });
+  }
+});
+
+/**
+ * POST /api/claims/batches
+ * Body: { periodStart, periodEnd, clientIds? }
+ * Builds a claim batch from the period's billable activities for clients
+ * with insurance on file (one claim per client, primary policy). Activities
+ * already on a claim are left out. Returns the batch
+ * (null when nothing was claimable) and the skipped clients/activities.
+ * 409 ACTIVITY_ALREADY_CLAIMED when a concurrent batch got there first.
+ * ADMIN ONLY
+ */
+router.post(
+  "/batches",
+  requireAdmin,
+  validate(createClaimBatchSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { periodStart, periodEnd, clientIds } =
+        req.body as z.infer<typeof createClaimBatchSchema>;
+
+      const result = await createClaimBatch({
+        orgId: req.user.orgId,
+        periodStart: new Date(periodStart),
+        periodEnd: new Date(periodEnd),
+        clientIds,
+        createdById: req.user.userId,
+      });
+
+      if (result.batch) {
+        await logAudit(req, {
+          entityType: "claim_batch",
+          entityId: result.batch.id,
+          action: "create",
+          details: `Claims ${periodStart} to ${periodEnd}: ${result.batch.claims.length} claim(s), ${result.skipped.length} skipped`,
+        });
+      }
+
+      res.status(result.batch ? 201 : 200).json(result);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error creating claim batch:", err);
+      res.status(500).json({ error: "Failed to create claim batch" });
+    }
+  }
+);
+
+/**
+ * GET /api/claims/batches/:id
+ * One batch with its claims and service lines (care managers: only their
+ * own clients' claims).
+ */
+router.get("/batches/:id", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const scope = claimScope(req);
+
+    const batch = await prisma.claimBatch.findFirst({
+      where: {
+        id: req.params.id,
+        orgId: req.user.orgId,
+        ...(req.user.role === "care_manager"
+          ? { claims: { some: scope } }
+          : {}),
+      },
+      include: {
+        claims: {
+          where: scope,
+          include: {
+            client: { select: { id: true, name: true } },
+            lines: { orderBy: { serviceDate: "asc" } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!batch) {
+      return res.status(404).json({ error: "Claim batch not found" });
+    }
+
+    res.json({
+      ...batch,
+      totalCharge: sumMoney(batch.claims.map((c) => c.totalCharge)),
+      statusCounts: countByStatus(batch.claims),
+    });
+  } catch (err) {
+    console.error("Error fetching claim batch:", err);
+    res.status(500).json({ error: "Failed to fetch claim batch" });
+  }
+});
+
+/**
+ * GET /api/claims/batches/:id/export/837p
+ * Downloads the batch as an 837P (X12) text file and stamps exportedAt.
+ * ADMIN ONLY
+ */
+router.get(
+  "/batches/:id/export/837p",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const loaded = await loadBatchForExport(req.user.orgId, req.params.id);
+      if (!loaded) {
+        return res.status(404).json({ error: "Claim batch not found" });
+      }
+
+      const { batch, org } = loaded;
+      const content = render837P(batch, batch.claims, org);
+
+      await prisma.claimBatch.update({
+        where: { id: batch.id },
+        data: { exportedAt: new Date() },
+      });
+
+      await logAudit(req, {
+        entityType: "claim_batch",
+        entityId: batch.id,
+        action: "export_837p",
+        details: `Exported ${batch.claims.length} claim(s) as 837P`,
+      });
+
+      res.setHeader("Content-Type", "text/plain");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="claims-${batch.id.slice(0, 8)}.837"`
+      );
+      res.status(200).send(content);
+    } catch (err) {
+      console.error("Error exporting 837P:", err);
+      res.status(500).json({ error: "Failed to export claim batch" });
+    }
+  }
+);
+
+/**
+ * GET /api/claims/batches/:id/export/cms1500
+ * Downloads the batch as CMS-1500-style PDF pages, one per claim.
+ * ADMIN ONLY
+ */
+router.get(
+  "/batches/:id/export/cms1500",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const loaded = await loadBatchForExport(req.user.orgId, req.params.id);
+      if (!loaded) {
+        return res.status(404).json({ error: "Claim batch not found" });
+      }
+
+      const { batch, org } = loaded;
+      if (!batch.claims.length) {
+        return res.status(400).json({ error: "Claim batch has no claims" });
+      }
+
+      const doc = new PDFDocument({ size: "A4", margin: 50 });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="claims-${batch.id.slice(0, 8)}-cms1500.pdf"`
+      );
+
+      doc.pipe(res);
+      renderCms1500(doc, batch.claims, org);
+      doc.end();
+    } catch (err) {
+      console.error("Error exporting CMS-1500:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export claim batch" });
+      }
+    }
+  }
+);
+
+/**
+ * POST /api/claims/batches/:id/submit
+ * Marks every draft claim in the batch as submitted (after the 837P has
+ * been sent to the clearinghouse).
+ * ADMIN ONLY
+ */
+router.post(
+  "/batches/:id/submit",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const batch = await prisma.claimBatch.findFirst({
+        where: { id: req.params.id, orgId: req.user.orgId },
+        include: {
+          claims: { where: { status: "draft" }, select: { id: true } },
+        },
+      });
+
+      if (!batch) {
+        return res.status(404).json({ error: "Claim batch not found" });
+      }
+
+      for (const claim of batch.claims) {
+        await updateClaimStatus({
+          orgId: req.user.orgId,
+          claimId: claim.id,
+          status: "submitted",
+        });
+      }
+
+      await logAudit(req, {
+        entityType: "claim_batch",
+        entityId: batch.id,
+        action: "submit",
+        details: `Submitted ${batch.claims.length} claim(s)`,
+      });
+
+      res.json({ ok: true, submitted: batch.claims.length });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error submitting claim batch:", err);
+      res.status(500).json({ error: "Failed to submit claim batch" });
+    }
+  }
+);
+
+/**
+ * GET /api/claims
+ * Optional query: status, clientId, batchId
+ * Care managers only see claims for their own clients.
+ */
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { status, clientId, batchId } = req.query;
+
+    const where: any = { orgId: req.user.orgId, ...claimScope(req) };
+
+    if (status !== undefined) {
+      if (!isClaimStatus(status)) {
+        return res.status(400).json({
+          error: `Invalid status. Must be one of: ${CLAIM_STATUSES.join(", ")}`,
+        });
+      }
+      where.status = status;
+    }
+    if (typeof clientId === "string" && clientId) where.clientId = clientId;
+    if (typeof batchId === "string" && batchId) where.batchId = batchId;
+
+    const claims = await prisma.claim.findMany({
+      where,
+      include: {
+        client: { select: { id: true, name: true } },
+        _count: { select: { lines: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json(claims);
+  } catch (err) {
+    console.error("Error fetching claims:", err);
+    res.status(500).json({ error: "Failed to fetch claims" });
+  }
+});
+
+/**
+ * GET /api/claims/:id
+ * One claim with its service lines.
+ */
+router.get("/:id", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const claim = await prisma.claim.findFirst({
+      where: { id: req.params.id, orgId: req.user.orgId },
+      include: {
+        client: { select: { id: true, name: true, primaryCMId: true } },
+        batch: true,
+        lines: {
+          include: {
+            activity: { select: { id: true, startTime: true, notes: true } },
+          },
+          orderBy: { serviceDate: "asc" },
+        },
+      },
+    });
+
+    if (!claim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      claim.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this claim." });
+    }
+
+    res.json(claim);
+  } catch (err) {
+    console.error("Error fetching claim:", err);
+    res.status(500).json({ error: "Failed to fetch claim" });
+  }
+});
+
+/**
+ * PATCH /api/claims/:id/status
+ * Body: { status, payerClaimNumber?, paidAmount?, denialReason? }
+ * draft → submitted → accepted → paid; submitted/accepted → denied;
+ * denied → submitted (corrected claim). paidAmount defaults to the total
+ * charge.
+ * ADMIN ONLY
+ */
+router.patch(
+  "/:id/status",
+  requireAdmin,
+  validate(updateClaimStatusSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const body = req.body as z.infer<typeof updateClaimStatusSchema>;
+
+      const claim = await updateClaimStatus({
+        orgId: req.user.orgId,
+        claimId: req.params.id,
+        ...body,
+      });
+
+      await logAudit(req, {
+        entityType: "claim",
+        entityId: claim.id,
+        action: "status_change",
+        details: `Claim marked ${claim.status}`,
+      });
+
+      res.json(claim);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error updating claim status:", err);
+      res.status(500).json({ error: "Failed to update claim status" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,313 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { AuthRequest } from "../middleware/auth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { validate } from "../middleware/validate";
+import { AppError } from "../middleware/errorHandler";
+import {
+  allocateClientPayment,
+  getClientPayment,
+  listClientPayments,
+  receiveClientPayment,
+  reverseClientPayment,
+  unapplyAllocation,
+} from "../services/clientPayments";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+/**
+ * Helper: write an AuditLog entry for client payment changes.
+ */
+async function logAudit(
+  req: AuthRequest,
+  params: {
+    entityType: string;
+    entityId?: string;
+    action: string;
+    details?: string;
+  }
+) {
+  if (!req.user) return;
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        orgId: req.user.orgId,
+        userId: req.user.userId,
+        entityType: params.entityType,
+        entityId: params.entityId ?? null,
+        action: params.action,
+        details: params.details ?? null,
+      },
+    });
+  } catch (err) {
+    // Never let audit logging crash the main request
+    console.error("Error writing client payment audit log:", err);
+  }
+}
+
+/**
+ * Helper: send AppErrors with their status, anything else as a 500.
+ */
+function sendError(res: any, err: unknown, action: string) {
+  if (err instanceof AppError) {
+    return res
+      .status(err.statusCode)
+      .json({ error: err.message, code: err.code });
+  }
+  console.error(`Error trying to ${action}:`, err);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+const allocationSchema = z.object({
+  invoiceId: z.string().min(1),
+  amount: z.number().positive("Allocation amount must be > 0"),
+});
+
+const receiveClientPaymentSchema = z.object({
+  clientId: z.string().min(1, "clientId is required"),
+  amount: z.number().positive("Amount must be > 0"),
+  // Defaults to the client's billing currency
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, "currency must be a 3-letter ISO code")
+    .transform((code) => code.toUpperCase())
+    .optional(),
+  method: z.string().min(1, "Payment method is required"),
+  reference: z.string().max(255).optional(),
+  billingPartyId: z.string().min(1).optional(),
+  receivedAt: z.coerce.date().optional(),
+  notes: z.string().max(1000).optional(),
+  // oldest_first (default) | manual (uses allocations) | none (hold as credit)
+  allocation: z.enum(["oldest_first", "manual", "none"]).optional(),
+  allocations: z.array(allocationSchema).optional(),
+});
+
+const allocateClientPaymentSchema = z.object({
+  // Omit to allocate oldest-first
+  allocations: z.array(allocationSchema).min(1).optional(),
+});
+
+const reverseClientPaymentSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * GET /api/client-payments
+ * Optional query: clientId
+ * Client-level payments with their allocations, allocatedAmount and
+ * unappliedAmount, plus the credit held on account: unappliedByCurrency,
+ * and totalUnapplied in the org's base currency (`currency`; currencies
+ * without an exchange rate are listed in missingExchangeRates).
+ * Care managers only see their own clients.
+ */
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { clientId } = req.query;
+
+    const result = await listClientPayments({
+      orgId: req.user.orgId,
+      clientId: typeof clientId === "string" && clientId ? clientId : undefined,
+      primaryCMId:
+        req.user.role === "care_manager" ? req.user.userId : undefined,
+    });
+
+    res.json(result);
+  } catch (err) {
+    sendError(res, err, "fetch client payments");
+  }
+});
+
+/**
+ * POST /api/client-payments
+ * Body: { clientId, amount, currency?, method, reference?, billingPartyId?,
+ *   receivedAt?, notes?, allocation?, allocations? }
+ * Records money received on the client account and allocates it to open
+ * invoices in its currency (default: the client's) oldest-first, manually,
+ * or not at all. The rest is held as credit and applied when the client's
+ * next invoice in that currency is approved.
+ * ADMIN ONLY
+ */
+router.post(
+  "/",
+  requireAdmin,
+  validate(receiveClientPaymentSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const body = req.body as z.infer<typeof receiveClientPaymentSchema>;
+
+      const clientPayment = await receiveClientPayment({
+        ...body,
+        orgId: req.user.orgId,
+        changedById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "client_payment",
+        entityId: clientPayment.id,
+        action: "create",
+        details: `Received ${clientPayment.amount.toFixed(2)} ${
+          clientPayment.currency
+        } for client ${
+          clientPayment.clientId
+        }; unapplied ${clientPayment.unappliedAmount.toFixed(2)}`,
+      });
+
+      res.status(201).json(clientPayment);
+    } catch (err) {
+      sendError(res, err, "record client payment");
+    }
+  }
+);
+
+/**
+ * GET /api/client-payments/:id
+ * Care managers can only view payments for their own clients.
+ */
+router.get("/:id", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const clientPayment = await getClientPayment(
+      req.user.orgId,
+      req.params.id as string
+    );
+
+    if (
+      req.user.role === "care_manager" &&
+      clientPayment.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this payment." });
+    }
+
+    res.json(clientPayment);
+  } catch (err) {
+    sendError(res, err, "fetch client payment");
+  }
+});
+
+/**
+ * POST /api/client-payments/:id/allocate
+ * Body: { allocations?: [{ invoiceId, amount }] }
+ * Applies unapplied credit to open invoices (oldest-first when
+ * allocations is omitted).
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/allocate",
+  requireAdmin,
+  validate(allocateClientPaymentSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { allocations } = req.body as z.infer<
+        typeof allocateClientPaymentSchema
+      >;
+
+      const clientPayment = await allocateClientPayment({
+        orgId: req.user.orgId,
+        clientPaymentId: req.params.id as string,
+        allocations,
+        changedById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "client_payment",
+        entityId: clientPayment.id,
+        action: "allocate",
+        details: `${
+          allocations ? "Manual" : "Oldest-first"
+        } allocation; unapplied ${clientPayment.unappliedAmount.toFixed(2)}`,
+      });
+
+      res.json(clientPayment);
+    } catch (err) {
+      sendError(res, err, "allocate client payment");
+    }
+  }
+);
+
+/**
+ * POST /api/client-payments/:id/allocations/:paymentId/unapply
+ * Takes an allocation back off its invoice; the amount returns to
+ * unapplied credit.
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/allocations/:paymentId/unapply",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const clientPayment = await unapplyAllocation({
+        orgId: req.user.orgId,
+        clientPaymentId: req.params.id as string,
+        paymentId: req.params.paymentId as string,
+        changedById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "client_payment",
+        entityId: clientPayment.id,
+        action: "unapply",
+        details: `Allocation ${req.params.paymentId} returned to credit`,
+      });
+
+      res.json(clientPayment);
+    } catch (err) {
+      sendError(res, err, "unapply allocation");
+    }
+  }
+);
+
+/**
+ * POST /api/client-payments/:id/reverse
+ * Body: { reason? }
+ * Bounced check and the like: reverses every allocation (invoices reopen)
+ * and drops the remaining credit.
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/reverse",
+  requireAdmin,
+  validate(reverseClientPaymentSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { reason } = req.body as z.infer<
+        typeof reverseClientPaymentSchema
+      >;
+
+      const clientPayment = await reverseClientPayment({
+        orgId: req.user.orgId,
+        clientPaymentId: req.params.id as string,
+        reason,
+        changedById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "client_payment",
+        entityId: clientPayment.id,
+        action: "reverse",
+        details: reason ?? undefined,
+      });
+
+      res.json(clientPayment);
+    } catch (err) {
+      sendError(res, err, "reverse client payment");
+    }
+  }
+);
+
+export default router;
@@ -3,10 +3,122 @@ import { PrismaClient } from "@prisma/client";
 import { AuthRequest } from "../middleware/auth";
 import { requireAdmin } from "../middleware/requireAdmin";
 import PDFDocument from "pdfkit";
+import { z } from "zod";
+import { validate } from "../middleware/validate";
+import { AppError, formatZodIssues } from "../middleware/errorHandler";
+import {
+  clientBillingRulesSchema,
+  getBillingContext,
+  normalizeStoredOrgRules,
+  normalizeStoredRules,
+  BillingRules,
+} from "../services/billingRules";
+import { money, sumMoney, Money, ZERO } from "../services/money";
+import { partyBalances } from "../services/billingSplits";
+import { RETAINER_CADENCES } from "../services/retainers";
+import { invoiceBalance } from "../services/invoiceTotals";
+import {
+  buildClientStatement,
+  defaultStatementWindow,
+} from "../services/statements";
+import {
+  renderStatementPdf,
+  statementNumber,
+} from "../services/statementPdf";
+import { loadDocumentTemplate } from "../services/pdfTemplate";
+import { normalizeCurrencyCode } from "../services/currency";
+import {
+  ConvertibleAmount,
+  loadRateConverter,
+} from "../services/exchangeRates";
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const saveClientRulesSchema = z.object({
+  rules: clientBillingRulesSchema,
+});
+
+const createRetainerPlanSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  amount: z.number().nonnegative(),
+  cadence: z.enum(RETAINER_CADENCES).default("monthly"),
+  includedHours: z.number().nonnegative().default(0),
+  // null → overage billed at the client/org hourly rate
+  overageRate: z.number().nonnegative().nullable().optional(),
+  startDate: z.string().min(1, "startDate is required"),
+  endDate: z.string().min(1).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const updateRetainerPlanSchema = createRetainerPlanSchema.partial();
+
+const billingPartyFields = z.object({
+  name: z.string().min(1, "Name is required").max(200),
+  partyType: z.enum(["family", "insurer", "other"]).default("family"),
+  relationship: z.string().max(100).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  // Percent of the invoice total, or a fixed amount; neither = remainder
+  sharePercent: z.number().min(0).max(100).nullable().optional(),
+  fixedAmount: z.number().nonnegative().nullable().optional(),
+  isPrimary: z.boolean().optional(),
+  active: z.boolean().optional(),
+});
+
+const oneShareTerm = (b: {
+  sharePercent?: number | null;
+  fixedAmount?: number | null;
+}) => b.sharePercent == null || b.fixedAmount == null;
+
+const createBillingPartySchema = billingPartyFields.refine(oneShareTerm, {
+  message: "Set either sharePercent or fixedAmount, not both",
+  path: ["fixedAmount"],
+});
+const updateBillingPartySchema = billingPartyFields
+  .partial()
+  .refine(oneShareTerm, {
+    message: "Set either sharePercent or fixedAmount, not both",
+    path: ["fixedAmount"],
+  });
+
+/**
+ * Helper: active parties' percentages may not add up to more than 100.
+ */
+async function billingPartyPercentTotal(
+  clientId: string,
+  excludePartyId?: string
+): Promise<Money> {
+  const parties = await prisma.billingParty.findMany({
+    where: {
+      clientId,
+      active: true,
+      ...(excludePartyId ? { id: { not: excludePartyId } } : {}),
+    },
+    select: { sharePercent: true },
+  });
+  return sumMoney(parties.map((p) => p.sharePercent));
+}
+
+/**
+ * Helper: parse plan dates; returns an error message when invalid.
+ */
+function parseRetainerDates(
+  startDate: string | Date,
+  endDate: string | Date | null | undefined
+): { start: Date; end: Date | null } | { error: string } {
+  const start = new Date(startDate);
+  const end = endDate ? new Date(endDate) : null;
+
+  if (Number.isNaN(start.getTime())) return { error: "Invalid startDate" };
+  if (end && Number.isNaN(end.getTime())) return { error: "Invalid endDate" };
+  if (end && end < start) {
+    return { error: "endDate must be on or after startDate" };
+  }
+  return { start, end };
+}
+
 // Simple reusable audit logger for meds & risks (and more later)
 async function logAudit(
   req: AuthRequest,
@@ -70,7 +182,11 @@ router.get("/", async (req: AuthRequest, res) => {
  * GET /api/clients/:id
  * Returns one client plus a simple billing summary:
  * - totalHoursBilled
- * - outstandingBalance
+ * - outstandingBalance (net of payments and credit notes)
+ * - totalCredited
+ * - currency: the org's base currency, which both totals are in;
+ *   outstandingByCurrency has the unconverted amounts, and currencies
+ *   without an exchange rate are listed in missingExchangeRates
  * - lastInvoiceDate
  * Care managers can only access their own clients.
  */
@@ -118,6 +234,7 @@ router.get("/:id", async (req: AuthRequest, res) => {
       },
       include: {
         payments: true,
+        creditNotes: true,
       },
       orderBy: {
         periodEnd: "desc",
@@ -136,28 +253,52 @@ router.get("/:id", async (req: AuthRequest, res) => {
     const totalMinutes = activities.reduce((sum, a) => sum + a.duration, 0);
     const totalHoursBilled = totalMinutes / 60;
 
-    // outstanding balance
-    let outstandingBalance = 0;
+    // outstanding balance, per invoice currency
+    const outstanding: ConvertibleAmount[] = [];
+    const credits: ConvertibleAmount[] = [];
     let lastInvoiceDate: Date | null = null;
 
     for (const inv of invoices) {
-      const paidAmount = inv.payments
-        .filter((p) => p.status === "completed")
-        .reduce((sum, p) => sum + p.amount, 0);
+      const { balance: remaining, totalCredited: credited } = invoiceBalance(
+        inv.totalAmount,
+        inv.payments,
+        inv.creditNotes
+      );
+      const currency = {
+        currency: inv.currency,
+        exchangeRate: inv.exchangeRate,
+      };
+      if (credited.gt(0)) credits.push({ amount: credited, ...currency });
 
-      const remaining = inv.totalAmount - paidAmount;
-      if (remaining > 0) outstandingBalance += remaining;
+      // Void invoices owe nothing (their balance was reversed by a credit)
+      if (inv.status !== "void" && remaining.gt(0)) {
+        outstanding.push({ amount: remaining, ...currency });
+      }
 
       if (!lastInvoiceDate || (inv.periodEnd && inv.periodEnd > lastInvoiceDate)) {
         lastInvoiceDate = inv.periodEnd;
       }
     }
 
+    // Totals in the org's base currency (see services/exchangeRates)
+    const converter = await loadRateConverter(req.user.orgId);
+    const outstandingTotal = converter.total(outstanding);
+    const creditedTotal = converter.total(credits);
+
     res.json({
       client,
       summary: {
         totalHoursBilled,
-        outstandingBalance,
+        currency: converter.baseCurrency,
+        outstandingBalance: outstandingTotal.total,
+        totalCredited: creditedTotal.total,
+        outstandingByCurrency: outstandingTotal.byCurrency,
+        missingExchangeRates: [
+          ...new Set([
+            ...outstandingTotal.missingRates,
+            ...creditedTotal.missingRates,
+          ]),
+        ],
         lastInvoiceDate,
       },
     });
@@ -196,12 +337,31 @@ router.post("/", async (req: AuthRequest, res) => {
       physicianName,
       physicianPhone,
       environmentSafetyNotes,
+      currency,
     } = req.body;
 
     if (!name || !dob || !address || !billingContactName) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
+    // Billing currency; omitted = the org's
+    const currencyCode = currency ? normalizeCurrencyCode(currency) : null;
+    if (currency && !currencyCode) {
+      return res
+        .status(400)
+        .json({ error: "currency must be a 3-letter ISO code" });
+    }
+
+    const parsedRules = clientBillingRulesSchema.safeParse(
+      billingRulesJson || {}
+    );
+    if (!parsedRules.success) {
+      return res.status(400).json({
+        error: "Invalid billing rules",
+        details: formatZodIssues(parsedRules.error),
+      });
+    }
+
     const client = await prisma.client.create({
       data: {
         orgId: req.user.orgId,
@@ -212,7 +372,8 @@ router.post("/", async (req: AuthRequest, res) => {
         billingContactName,
         billingContactEmail,
         billingContactPhone,
-        billingRulesJson: billingRulesJson || {},
+        billingRulesJson: parsedRules.data,
+        currency: currencyCode,
         status: status || "active",
         // extra fields can be wired here later:
         // preferredName,
@@ -256,8 +417,29 @@ router.patch("/:id", async (req: AuthRequest, res) => {
     billingContactEmail,
     billingContactPhone,
     billingRulesJson,
+    currency,
   } = req.body;
 
+  // Billing currency; null or "" goes back to the org's
+  const currencyCode = currency ? normalizeCurrencyCode(currency) : null;
+  if (currency && !currencyCode) {
+    return res
+      .status(400)
+      .json({ error: "currency must be a 3-letter ISO code" });
+  }
+
+  let parsedRules: BillingRules | undefined;
+  if (billingRulesJson !== undefined) {
+    const result = clientBillingRulesSchema.safeParse(billingRulesJson);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid billing rules",
+        details: formatZodIssues(result.error),
+      });
+    }
+    parsedRules = result.data;
+  }
+
   try {
     const updated = await prisma.client.update({
       where: {
@@ -270,7 +452,10 @@ router.patch("/:id", async (req: AuthRequest, res) => {
         ...(billingContactName !== undefined ? { billingContactName } : {}),
         ...(billingContactEmail !== undefined ? { billingContactEmail } : {}),
         ...(billingContactPhone !== undefined ? { billingContactPhone } : {}),
-        ...(billingRulesJson !== undefined ? { billingRulesJson } : {}),
+        ...(currency !== undefined ? { currency: currencyCode } : {}),
+        ...(parsedRules !== undefined
+          ? { billingRulesJson: parsedRules }
+          : {}),
       },
     });
 
@@ -322,6 +507,18 @@ router.put("/:id", async (req: AuthRequest, res) => {
       return res.status(404).json({ error: "Client not found" });
     }
 
+    let parsedRules: BillingRules | undefined;
+    if (billingRulesJson !== undefined && billingRulesJson !== null) {
+      const result = clientBillingRulesSchema.safeParse(billingRulesJson);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid billing rules",
+          details: formatZodIssues(result.error),
+        });
+      }
+      parsedRules = result.data;
+    }
+
     // Compute what the new values will be
     const nextStatus: string =
       typeof status === "string" ? status : existing.status;
@@ -368,7 +565,7 @@ router.put("/:id", async (req: AuthRequest, res) => {
         billingContactEmail:
           billingContactEmail ?? existing.billingContactEmail,
         billingContactPhone: nextPhone,
-        billingRulesJson: billingRulesJson ?? existing.billingRulesJson,
+        billingRulesJson: parsedRules ?? existing.billingRulesJson ?? {},
         status: nextStatus,
       },
     });
@@ -609,13 +806,15 @@ router.get("/:id/billing-rules", async (req: AuthRequest, res) => {
       });
     }
 
-    const orgRules = (org?.billingRulesJson as any) || {};
-    const clientRules = (client.billingRulesJson as any) || {};
+    const orgRules = normalizeStoredOrgRules(org?.billingRulesJson);
+    const clientRules = normalizeStoredRules(client.billingRulesJson);
 
     return res.json({
       ok: true,
       orgRules,
       clientRules,
+      // Resolved values after client -> org -> default precedence
+      effectiveRules: getBillingContext(clientRules, orgRules),
     });
   } catch (err) {
     console.error("Error fetching client billing rules:", err);
@@ -628,20 +827,18 @@ router.get("/:id/billing-rules", async (req: AuthRequest, res) => {
 /**
  * POST /api/clients/:id/billing-rules
  * ADMIN ONLY – Save client-specific billing rules overrides.
+ * Body: { rules } – validated against the versioned client rule schema.
  */
 router.post(
   "/:id/billing-rules",
   requireAdmin,
+  validate(saveClientRulesSchema),
   async (req: AuthRequest, res) => {
     try {
       if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
       const { id } = req.params;
-      const { rules } = req.body as { rules?: any };
-
-      if (!rules || typeof rules !== "object") {
-        return res.status(400).json({ error: "Invalid rules JSON." });
-      }
+      const { rules } = req.body as { rules: BillingRules };
 
       const client = await prisma.client.findFirst({
         where: {
@@ -672,6 +869,747 @@ router.post(
   }
 );
 
+/**
+ * GET /api/clients/:id/retainer-plans
+ * Recurring billing plans for a client, newest first.
+ */
+router.get("/:id/retainer-plans", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    const client = await prisma.client.findFirst({
+      where: {
+        id,
+        orgId: req.user.orgId,
+      },
+    });
+
+    if (!client) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this client." });
+    }
+
+    const plans = await prisma.retainerPlan.findMany({
+      where: { clientId: client.id, orgId: req.user.orgId },
+      orderBy: { startDate: "desc" },
+    });
+
+    return res.json(plans);
+  } catch (err) {
+    console.error("Error fetching retainer plans:", err);
+    return res.status(500).json({ error: "Failed to fetch retainer plans." });
+  }
+});
+
+/**
+ * POST /api/clients/:id/retainer-plans
+ * ADMIN ONLY – body: { name?, amount, cadence?, includedHours?,
+ * overageRate?, startDate, endDate?, active? }
+ */
+router.post(
+  "/:id/retainer-plans",
+  requireAdmin,
+  validate(createRetainerPlanSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params;
+      const body = req.body as z.infer<typeof createRetainerPlanSchema>;
+
+      const client = await prisma.client.findFirst({
+        where: {
+          id,
+          orgId: req.user.orgId,
+        },
+      });
+
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const dates = parseRetainerDates(body.startDate, body.endDate);
+      if ("error" in dates) {
+        return res.status(400).json({ error: dates.error });
+      }
+
+      const plan = await prisma.retainerPlan.create({
+        data: {
+          orgId: req.user.orgId,
+          clientId: client.id,
+          ...(body.name ? { name: body.name } : {}),
+          amount: money(body.amount),
+          cadence: body.cadence,
+          includedHours: body.includedHours,
+          overageRate:
+            body.overageRate === undefined || body.overageRate === null
+              ? null
+              : money(body.overageRate),
+          startDate: dates.start,
+          endDate: dates.end,
+          active: body.active ?? true,
+        },
+      });
+
+      await logAudit(req, {
+        entityType: "retainer_plan",
+        entityId: plan.id,
+        action: "create",
+        details: `Created ${plan.cadence} retainer "${plan.name}" (${plan.amount.toFixed(
+          2
+        )}) for client ${client.id}`,
+      });
+
+      return res.status(201).json(plan);
+    } catch (err) {
+      console.error("Error creating retainer plan:", err);
+      return res.status(500).json({ error: "Failed to create retainer plan." });
+    }
+  }
+);
+
+/**
+ * PUT /api/clients/:clientId/retainer-plans/:planId
+ * ADMIN ONLY – partial update. Ending a plan: set endDate (or active=false).
+ */
+router.put(
+  "/:clientId/retainer-plans/:planId",
+  requireAdmin,
+  validate(updateRetainerPlanSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { clientId, planId } = req.params;
+      const body = req.body as z.infer<typeof updateRetainerPlanSchema>;
+
+      const plan = await prisma.retainerPlan.findFirst({
+        where: {
+          id: planId,
+          clientId,
+          orgId: req.user.orgId,
+        },
+      });
+
+      if (!plan) {
+        return res.status(404).json({ error: "Retainer plan not found" });
+      }
+
+      const dates = parseRetainerDates(
+        body.startDate ?? plan.startDate,
+        body.endDate === undefined ? plan.endDate : body.endDate
+      );
+      if ("error" in dates) {
+        return res.status(400).json({ error: dates.error });
+      }
+
+      const updated = await prisma.retainerPlan.update({
+        where: { id: plan.id },
+        data: {
+          ...(body.name ? { name: body.name } : {}),
+          ...(body.amount !== undefined ? { amount: money(body.amount) } : {}),
+          ...(body.cadence ? { cadence: body.cadence } : {}),
+          ...(body.includedHours !== undefined
+            ? { includedHours: body.includedHours }
+            : {}),
+          ...(body.overageRate !== undefined
+            ? {
+                overageRate:
+                  body.overageRate === null ? null : money(body.overageRate),
+              }
+            : {}),
+          startDate: dates.start,
+          endDate: dates.end,
+          ...(typeof body.active === "boolean" ? { active: body.active } : {}),
+        },
+      });
+
+      await logAudit(req, {
+        entityType: "retainer_plan",
+        entityId: updated.id,
+        action: "update",
+        details: `Updated retainer "${updated.name}" for client ${updated.clientId}`,
+      });
+
+      return res.json(updated);
+    } catch (err) {
+      console.error("Error updating retainer plan:", err);
+      return res.status(500).json({ error: "Failed to update retainer plan." });
+    }
+  }
+);
+
+/**
+ * DELETE /api/clients/:clientId/retainer-plans/:planId
+ * ADMIN ONLY – only plans that never reached an invoice can be deleted;
+ * billed plans must be ended (endDate / active=false) instead.
+ */
+router.delete(
+  "/:clientId/retainer-plans/:planId",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { clientId, planId } = req.params;
+
+      const plan = await prisma.retainerPlan.findFirst({
+        where: {
+          id: planId,
+          clientId,
+          orgId: req.user.orgId,
+        },
+        include: { _count: { select: { invoiceItems: true } } },
+      });
+
+      if (!plan) {
+        return res.status(404).json({ error: "Retainer plan not found" });
+      }
+
+      if (plan._count.invoiceItems > 0) {
+        return res.status(409).json({
+          error:
+            "This plan has been invoiced. Set an endDate or deactivate it instead.",
+          code: "RETAINER_PLAN_INVOICED",
+        });
+      }
+
+      await prisma.retainerPlan.delete({ where: { id: plan.id } });
+
+      await logAudit(req, {
+        entityType: "retainer_plan",
+        entityId: plan.id,
+        action: "delete",
+        details: `Deleted retainer "${plan.name}" for client ${plan.clientId}`,
+      });
+
+      return res.json({ ok: true });
+    } catch (err) {
+      console.error("Error deleting retainer plan:", err);
+      return res.status(500).json({ error: "Failed to delete retainer plan." });
+    }
+  }
+);
+
+/**
+ * GET /api/clients/:id/billing-parties
+ * Responsible parties for split billing, each with totals across the
+ * client's issued invoices (billed share, paid, credited, balance).
+ */
+router.get("/:id/billing-parties", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    const client = await prisma.client.findFirst({
+      where: {
+        id,
+        orgId: req.user.orgId,
+      },
+    });
+
+    if (!client) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this client." });
+    }
+
+    const [parties, invoices] = await Promise.all([
+      prisma.billingParty.findMany({
+        where: { clientId: client.id, orgId: req.user.orgId },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.invoice.findMany({
+        where: {
+          clientId: client.id,
+          orgId: req.user.orgId,
+          status: { notIn: ["draft", "void"] },
+          partyShares: { some: {} },
+        },
+        include: { partyShares: true, payments: true, creditNotes: true },
+      }),
+    ]);
+
+    const totals = new Map<
+      string,
+      { billed: Money; paid: Money; credited: Money; balance: Money }
+    >();
+
+    for (const invoice of invoices) {
+      const { parties: balances } = partyBalances(
+        invoice.partyShares,
+        invoice.payments,
+        invoice.creditNotes
+      );
+      for (const b of balances) {
+        const t = totals.get(b.billingPartyId) ?? {
+          billed: ZERO,
+          paid: ZERO,
+          credited: ZERO,
+          balance: ZERO,
+        };
+        totals.set(b.billingPartyId, {
+          billed: t.billed.plus(b.amount),
+          paid: t.paid.plus(b.paid),
+          credited: t.credited.plus(b.credited),
+          balance: t.balance.plus(b.balance),
+        });
+      }
+    }
+
+    return res.json(
+      parties.map((party) => ({
+        ...party,
+        totals: totals.get(party.id) ?? {
+          billed: ZERO,
+          paid: ZERO,
+          credited: ZERO,
+          balance: ZERO,
+        },
+      }))
+    );
+  } catch (err) {
+    console.error("Error fetching billing parties:", err);
+    return res.status(500).json({ error: "Failed to fetch billing parties." });
+  }
+});
+
+/**
+ * POST /api/clients/:id/billing-parties
+ * ADMIN ONLY – body: { name, partyType?, relationship?, email?, phone?,
+ * address?, sharePercent? | fixedAmount?, isPrimary?, active? }
+ */
+router.post(
+  "/:id/billing-parties",
+  requireAdmin,
+  validate(createBillingPartySchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params;
+      const body = req.body as z.infer<typeof createBillingPartySchema>;
+
+      const client = await prisma.client.findFirst({
+        where: {
+          id,
+          orgId: req.user.orgId,
+        },
+      });
+
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const active = body.active ?? true;
+      if (active && body.sharePercent) {
+        const total = await billingPartyPercentTotal(client.id);
+        if (total.plus(body.sharePercent).gt(100)) {
+          return res.status(400).json({
+            error: `Share percentages would total ${total
+              .plus(body.sharePercent)
+              .toString()}%; they cannot exceed 100%.`,
+          });
+        }
+      }
+
+      const party = await prisma.$transaction(async (tx) => {
+        // Only one primary (remainder) party per client
+        if (body.isPrimary) {
+          await tx.billingParty.updateMany({
+            where: { clientId: client.id, isPrimary: true },
+            data: { isPrimary: false },
+          });
+        }
+
+        return tx.billingParty.create({
+          data: {
+            orgId: req.user!.orgId,
+            clientId: client.id,
+            name: body.name,
+            partyType: body.partyType,
+            relationship: body.relationship ?? null,
+            email: body.email ?? null,
+            phone: body.phone ?? null,
+            address: body.address ?? null,
+            sharePercent: body.sharePercent ?? null,
+            fixedAmount:
+              body.fixedAmount == null ? null : money(body.fixedAmount),
+            isPrimary: body.isPrimary ?? false,
+            active,
+          },
+        });
+      });
+
+      await logAudit(req, {
+        entityType: "billing_party",
+        entityId: party.id,
+        action: "create",
+        details: `Added billing party "${party.name}" for client ${client.id}`,
+      });
+
+      return res.status(201).json(party);
+    } catch (err) {
+      console.error("Error creating billing party:", err);
+      return res.status(500).json({ error: "Failed to create billing party." });
+    }
+  }
+);
+
+/**
+ * PUT /api/clients/:clientId/billing-parties/:partyId
+ * ADMIN ONLY – partial update. Issued invoices keep the split they were
+ * sent with; changes apply to invoices sent afterwards.
+ */
+router.put(
+  "/:clientId/billing-parties/:partyId",
+  requireAdmin,
+  validate(updateBillingPartySchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { clientId, partyId } = req.params;
+      const body = req.body as z.infer<typeof updateBillingPartySchema>;
+
+      const party = await prisma.billingParty.findFirst({
+        where: {
+          id: partyId,
+          clientId,
+          orgId: req.user.orgId,
+        },
+      });
+
+      if (!party) {
+        return res.status(404).json({ error: "Billing party not found" });
+      }
+
+      // Switching between percent and fixed clears the other term
+      const sharePercent =
+        body.sharePercent !== undefined
+          ? body.sharePercent
+          : body.fixedAmount != null
+          ? null
+          : party.sharePercent?.toNumber() ?? null;
+      const fixedAmount =
+        body.fixedAmount !== undefined
+          ? body.fixedAmount
+          : body.sharePercent != null
+          ? null
+          : party.fixedAmount?.toNumber() ?? null;
+      const active = body.active ?? party.active;
+
+      if (active && sharePercent) {
+        const total = await billingPartyPercentTotal(clientId, party.id);
+        if (total.plus(sharePercent).gt(100)) {
+          return res.status(400).json({
+            error: `Share percentages would total ${total
+              .plus(sharePercent)
+              .toString()}%; they cannot exceed 100%.`,
+          });
+        }
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (body.isPrimary) {
+          await tx.billingParty.updateMany({
+            where: { clientId, isPrimary: true, id: { not: party.id } },
+            data: { isPrimary: false },
+          });
+        }
+
+        return tx.billingParty.update({
+          where: { id: party.id },
+          data: {
+            ...(body.name ? { name: body.name } : {}),
+            ...(body.partyType ? { partyType: body.partyType } : {}),
+            ...(body.relationship !== undefined
+              ? { relationship: body.relationship }
+              : {}),
+            ...(body.email !== undefined ? { email: body.email } : {}),
+            ...(body.phone !== undefined ? { phone: body.phone } : {}),
+            ...(body.address !== undefined ? { address: body.address } : {}),
+            sharePercent,
+            fixedAmount: fixedAmount == null ? null : money(fixedAmount),
+            ...(typeof body.isPrimary === "boolean"
+              ? { isPrimary: body.isPrimary }
+              : {}),
+            active,
+          },
+        });
+      });
+
+      await logAudit(req, {
+        entityType: "billing_party",
+        entityId: updated.id,
+        action: "update",
+        details: `Updated billing party "${updated.name}" for client ${updated.clientId}`,
+      });
+
+      return res.json(updated);
+    } catch (err) {
+      console.error("Error updating billing party:", err);
+      return res.status(500).json({ error: "Failed to update billing party." });
+    }
+  }
+);
+
+/**
+ * DELETE /api/clients/:clientId/billing-parties/:partyId
+ * ADMIN ONLY – parties on issued invoices or payments are deactivated
+ * instead of deleted, so their history stays intact.
+ */
+router.delete(
+  "/:clientId/billing-parties/:partyId",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { clientId, partyId } = req.params;
+
+      const party = await prisma.billingParty.findFirst({
+        where: {
+          id: partyId,
+          clientId,
+          orgId: req.user.orgId,
+        },
+        include: {
+          _count: { select: { invoiceShares: true, payments: true } },
+        },
+      });
+
+      if (!party) {
+        return res.status(404).json({ error: "Billing party not found" });
+      }
+
+      const hasHistory =
+        party._count.invoiceShares > 0 || party._count.payments > 0;
+
+      if (hasHistory) {
+        await prisma.billingParty.update({
+          where: { id: party.id },
+          data: { active: false, isPrimary: false },
+        });
+      } else {
+        await prisma.billingParty.delete({ where: { id: party.id } });
+      }
+
+      await logAudit(req, {
+        entityType: "billing_party",
+        entityId: party.id,
+        action: hasHistory ? "deactivate" : "delete",
+        details: `${hasHistory ? "Deactivated" : "Deleted"} billing party "${
+          party.name
+        }" for client ${party.clientId}`,
+      });
+
+      return res.json({ ok: true, deactivated: hasHistory });
+    } catch (err) {
+      console.error("Error deleting billing party:", err);
+      return res.status(500).json({ error: "Failed to delete billing party." });
+    }
+  }
+);
+
+/**
+ * GET /api/clients/:id/statement
+ * Statement of account: opening balance, every invoice, payment and credit
+ * in the window with a running balance, closing balance and aging buckets.
+ * Query:
+ *  - from?, to?: window (default: current month to date)
+ *  - format?: "json" (default) | "pdf"
+ * Care managers can only see statements for their own clients.
+ */
+router.get("/:id/statement", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const { from, to, format } = req.query;
+
+    const client = await prisma.client.findFirst({
+      where: { id, orgId: req.user.orgId },
+      select: { id: true, primaryCMId: true },
+    });
+
+    if (!client) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this client." });
+    }
+
+    const window = defaultStatementWindow();
+    const statement = await buildClientStatement({
+      orgId: req.user.orgId,
+      clientId: client.id,
+      from: typeof from === "string" && from ? new Date(from) : window.from,
+      to: typeof to === "string" && to ? new Date(to) : window.to,
+    });
+
+    if (format !== "pdf") {
+      return res.json(statement);
+    }
+
+    const template = await loadDocumentTemplate(req.user.orgId);
+
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="statement-${statementNumber(
+        statement,
+        template.branding
+      )}.pdf"`
+    );
+
+    doc.pipe(res);
+    renderStatementPdf(doc, statement, template);
+    doc.end();
+  } catch (err) {
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
+    console.error("Error building client statement:", err);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to build client statement" });
+    }
+  }
+});
+
+const pauseRemindersSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/clients/:id/reminders/pause
+ * Body: { reason? }
+ * ADMIN ONLY – stop payment reminder emails for this client's invoices
+ * (e.g. a payment plan is agreed) until resumed.
+ */
+router.post(
+  "/:id/reminders/pause",
+  requireAdmin,
+  validate(pauseRemindersSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params as { id: string };
+      const { reason } = req.body as z.infer<typeof pauseRemindersSchema>;
+
+      const client = await prisma.client.findFirst({
+        where: { id, orgId: req.user.orgId },
+        select: { id: true },
+      });
+
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const updated = await prisma.client.update({
+        where: { id: client.id },
+        data: {
+          remindersPausedAt: new Date(),
+          remindersPausedReason: reason || null,
+        },
+        select: {
+          id: true,
+          remindersPausedAt: true,
+          remindersPausedReason: true,
+        },
+      });
+
+      await logAudit(req, {
+        entityType: "client",
+        entityId: client.id,
+        action: "pause_reminders",
+        details: reason,
+      });
+
+      return res.json(updated);
+    } catch (err) {
+      console.error("Error pausing reminders:", err);
+      return res.status(500).json({ error: "Failed to pause reminders" });
+    }
+  }
+);
+
+/**
+ * POST /api/clients/:id/reminders/resume
+ * ADMIN ONLY – turn payment reminders back on. The next due step is sent
+ * on the job's next run; steps missed while paused are not caught up.
+ */
+router.post(
+  "/:id/reminders/resume",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params as { id: string };
+
+      const client = await prisma.client.findFirst({
+        where: { id, orgId: req.user.orgId },
+        select: { id: true },
+      });
+
+      if (!client) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+
+      const updated = await prisma.client.update({
+        where: { id: client.id },
+        data: { remindersPausedAt: null, remindersPausedReason: null },
+        select: {
+          id: true,
+          remindersPausedAt: true,
+          remindersPausedReason: true,
+        },
+      });
+
+      await logAudit(req, {
+        entityType: "client",
+        entityId: client.id,
+        action: "resume_reminders",
+      });
+
+      return res.json(updated);
+    } catch (err) {
+      console.error("Error resuming reminders:", err);
+      return res.status(500).json({ error: "Failed to resume reminders" });
+    }
+  }
+);
+
 /**
  * GET /api/clients/:id/contacts
  */
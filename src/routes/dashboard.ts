@@ -1,13 +1,16 @@
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { AuthRequest } from "../middleware/auth";
+import { overdueInvoiceWhere } from "../services/invoiceOverdue";
+import { loadRateConverter } from "../services/exchangeRates";
 
 const router = Router();
 const prisma = new PrismaClient();
 
 /**
  * GET /api/dashboard/summary
- * Returns high-level KPIs for the current month.
+ * Returns high-level KPIs for the current month. Revenue is in the org's
+ * base currency (`currency`), converted at each invoice's rate.
  */
 router.get("/summary", async (req: AuthRequest, res) => {
   try {
@@ -60,6 +63,9 @@ router.get("/summary", async (req: AuthRequest, res) => {
             lt: startOfNextMonth,
           },
         },
+        include: {
+          invoice: { select: { currency: true, exchangeRate: true } },
+        },
       }),
     ]);
 
@@ -69,30 +75,31 @@ router.get("/summary", async (req: AuthRequest, res) => {
     );
     const hoursLoggedThisMonth = +(totalMinutes / 60).toFixed(2);
 
-    const revenueThisMonth = paymentsThisMonth.reduce(
-      (sum, p) => sum + p.amount,
-      0
+    // Payments are in their invoice's currency; report in the org's
+    const converter = await loadRateConverter(orgId);
+    const revenue = converter.total(
+      paymentsThisMonth.map((p) => ({
+        amount: p.amount,
+        currency: p.invoice.currency,
+        exchangeRate: p.invoice.exchangeRate,
+        on: p.paidAt,
+      }))
     );
 
-    // Overdue invoices: status = "sent" and periodEnd is more than 14 days ago
-    const fourteenDaysMs = 14 * 24 * 60 * 60 * 1000;
-    const cutoff = new Date(now.getTime() - fourteenDaysMs);
-
+    // Overdue invoices: past their due date (see services/invoiceOverdue)
     const overdueInvoiceCount = await prisma.invoice.count({
-      where: {
-        orgId,
-        status: "sent",
-        periodEnd: {
-          lt: cutoff,
-        },
-      },
+      where: overdueInvoiceWhere(orgId, now),
     });
 
     res.json({
       activeClientCount,
       hoursLoggedThisMonth,
       invoicesPendingApproval: draftInvoiceCount,
-      revenueThisMonth,
+      revenueThisMonth: revenue.total,
+      revenueByCurrency: revenue.byCurrency,
+      currency: converter.baseCurrency,
+      // Left out of revenueThisMonth until a rate is added
+      missingExchangeRates: revenue.missingRates,
       overdueInvoiceCount,
     });
   } catch (err) {
@@ -0,0 +1,231 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { AuthRequest } from "../middleware/auth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { validate } from "../middleware/validate";
+import { AppError } from "../middleware/errorHandler";
+import { normalizeCurrencyCode } from "../services/currency";
+import {
+  orgBaseCurrency,
+  parseExchangeRateFile,
+  saveExchangeRates,
+} from "../services/exchangeRates";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+/**
+ * Helper: write an AuditLog entry for exchange rate changes.
+ */
+async function logAudit(
+  req: AuthRequest,
+  params: {
+    entityId?: string;
+    action: string;
+    details?: string;
+  }
+) {
+  if (!req.user) return;
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        orgId: req.user.orgId,
+        userId: req.user.userId,
+        entityType: "exchange_rate",
+        entityId: params.entityId ?? null,
+        action: params.action,
+        details: params.details ?? null,
+      },
+    });
+  } catch (err) {
+    // Never let audit logging crash the main request
+    console.error("Error writing exchange rate audit log:", err);
+  }
+}
+
+/**
+ * Helper: send AppErrors with their status, anything else as a 500.
+ */
+function sendError(res: any, err: unknown, action: string) {
+  if (err instanceof AppError) {
+    return res
+      .status(err.statusCode)
+      .json({ error: err.message, code: err.code });
+  }
+  console.error(`Error trying to ${action}:`, err);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+const exchangeRateSchema = z.object({
+  currency: z.string().min(1, "currency is required"),
+  rate: z.number().positive("Rate must be > 0"),
+  // Defaults to the org currency
+  baseCurrency: z.string().min(1).optional(),
+  // Defaults to today
+  effectiveDate: z.coerce.date().optional(),
+});
+
+const saveExchangeRatesSchema = z.object({
+  rates: z.array(exchangeRateSchema).min(1).max(500),
+});
+
+const importExchangeRatesSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  content: z.string().min(1, "content is required"),
+});
+
+/**
+ * GET /api/exchange-rates
+ * Optional query: currency
+ * Stored rates, newest first per currency, plus the org's baseCurrency.
+ */
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const currency = normalizeCurrencyCode(req.query.currency);
+
+    const [baseCurrency, rates] = await Promise.all([
+      orgBaseCurrency(req.user.orgId),
+      prisma.exchangeRate.findMany({
+        where: {
+          orgId: req.user.orgId,
+          ...(currency ? { currency } : {}),
+        },
+        orderBy: [{ currency: "asc" }, { effectiveDate: "desc" }],
+      }),
+    ]);
+
+    res.json({ baseCurrency, rates });
+  } catch (err) {
+    sendError(res, err, "fetch exchange rates");
+  }
+});
+
+/**
+ * POST /api/exchange-rates
+ * Body: { rates: [{ currency, rate, baseCurrency?, effectiveDate? }] }
+ * "1 <currency> = <rate> <baseCurrency>" from effectiveDate on. A rate for
+ * the same pair and date is replaced. Invoices already issued keep the
+ * rate they were issued with.
+ * ADMIN ONLY
+ */
+router.post(
+  "/",
+  requireAdmin,
+  validate(saveExchangeRatesSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { rates } = req.body as z.infer<typeof saveExchangeRatesSchema>;
+
+      const saved = await saveExchangeRates({
+        orgId: req.user.orgId,
+        rates,
+        source: "manual",
+        createdById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        action: "save",
+        details: `Saved ${saved.length} exchange rate(s): ${[
+          ...new Set(saved.map((r) => `${r.currency}/${r.baseCurrency}`)),
+        ].join(", ")}`,
+      });
+
+      res.status(201).json({ rates: saved });
+    } catch (err) {
+      sendError(res, err, "save exchange rates");
+    }
+  }
+);
+
+/**
+ * POST /api/exchange-rates/import
+ * Body: { format: "csv" | "json", content }
+ * Loads a rates file (see parseExchangeRateFile for the layout); the whole
+ * file is rejected if any row is invalid.
+ * ADMIN ONLY
+ */
+router.post(
+  "/import",
+  requireAdmin,
+  validate(importExchangeRatesSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { format, content } = req.body as z.infer<
+        typeof importExchangeRatesSchema
+      >;
+
+      const rates = parseExchangeRateFile(content, format);
+      if (!rates.length) {
+        throw new AppError(
+          "Rates file has no rates.",
+          400,
+          "INVALID_RATES_FILE"
+        );
+      }
+
+      const saved = await saveExchangeRates({
+        orgId: req.user.orgId,
+        rates,
+        source: "import",
+        createdById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        action: "import",
+        details: `Imported ${saved.length} exchange rate(s) from ${format}`,
+      });
+
+      res.status(201).json({ imported: saved.length, rates: saved });
+    } catch (err) {
+      sendError(res, err, "import exchange rates");
+    }
+  }
+);
+
+/**
+ * DELETE /api/exchange-rates/:id
+ * Removes a stored rate. Invoices issued with it keep their rate.
+ * ADMIN ONLY
+ */
+router.delete("/:id", requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const id = req.params.id as string;
+
+    const rate = await prisma.exchangeRate.findFirst({
+      where: { id, orgId: req.user.orgId },
+    });
+    if (!rate) {
+      throw new AppError(
+        "Exchange rate not found",
+        404,
+        "EXCHANGE_RATE_NOT_FOUND"
+      );
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: rate.id } });
+
+    const pair = `${rate.currency}/${rate.baseCurrency}`;
+    const from = rate.effectiveDate.toISOString().slice(0, 10);
+    await logAudit(req, {
+      entityId: rate.id,
+      action: "delete",
+      details: `Deleted ${pair} rate ${rate.rate} from ${from}`,
+    });
+
+    res.json({ ok: true });
+  } catch (err) {
+    sendError(res, err, "delete exchange rate");
+  }
+});
+
+export default router;
@@ -5,16 +5,153 @@ import { AuthRequest } from "../middleware/auth";
 import { requireAdmin } from "../middleware/requireAdmin";
 import { validate } from "../middleware/validate";
 import PDFDocument from "pdfkit";
+import { AppError } from "../middleware/errorHandler";
+import { generateInvoiceBatch } from "../services/invoiceBatch";
+import {
+  buildInvoiceDraft,
+  createDraftInvoice,
+  draftLineItemData,
+  GENERATED_ITEM_KINDS,
+} from "../services/invoiceDrafts";
+import {
+  findInvoiceTotalMismatches,
+  invoiceBalance,
+  recomputeInvoiceTotal,
+  Tx,
+} from "../services/invoiceTotals";
+import {
+  decimal,
+  formatMoney,
+  money,
+  sumMoney,
+  Money,
+  MoneyInput,
+} from "../services/money";
+import {
+  getBillingContext,
+  normalizeStoredOrgRules,
+} from "../services/billingRules";
+import { describeInvoiceSplit } from "../services/billingSplits";
+import {
+  csvDelimiter,
+  formatAmount,
+  formatCurrency,
+  formatRate,
+} from "../services/currency";
+import { loadRateConverter } from "../services/exchangeRates";
+import { displayInvoiceNumber } from "../services/invoiceNumbers";
+import { runOverdueSweep } from "../jobs/overdueInvoices";
+import { runReminderSweep } from "../jobs/paymentReminders";
+import { recordInvoicePayment } from "../services/payments";
+import { applyClientCredit } from "../services/clientPayments";
+import {
+  invoicePdfBuffer,
+  storeInvoicePdf,
+  storedPdfOutdated,
+} from "../services/invoicePdf";
+import {
+  recordDeliveryBounce,
+  sendInvoiceEmail,
+} from "../services/invoiceDelivery";
+import {
+  isInvoiceStatus,
+  syncPaymentStatus,
+  transitionInvoice,
+} from "../services/invoiceLifecycle";
 
 const router = Router();
 const prisma = new PrismaClient();
 
-type InvoiceStatus = "draft" | "sent" | "paid" | "overdue" | string;
+/**
+ * Simple reusable audit logger for invoices and their line items
+ */
+async function logAudit(
+  req: AuthRequest,
+  params: {
+    entityType: string;
+    entityId?: string;
+    action: string;
+    details?: string;
+  }
+) {
+  if (!req.user) return;
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        orgId: req.user.orgId,
+        userId: req.user.userId,
+        entityType: params.entityType,
+        entityId: params.entityId ?? null,
+        action: params.action,
+        details: params.details ?? null,
+      },
+    });
+  } catch (err) {
+    // Never let audit logging crash the main request
+    console.error("Error writing invoice audit log:", err);
+  }
+}
 
 const generateInvoiceSchema = z.object({
   clientId: z.string().min(1, "clientId is required"),
   periodStart: z.string().min(1, "periodStart is required"),
   periodEnd: z.string().min(1, "periodEnd is required"),
+  // Defaults to the client's currency, else the org's
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, "currency must be a 3-letter ISO code")
+    .transform((code) => code.toUpperCase())
+    .optional(),
+});
+
+const generateBatchSchema = z.object({
+  periodStart: z.string().min(1, "periodStart is required"),
+  periodEnd: z.string().min(1, "periodEnd is required"),
+  clientIds: z.array(z.string().min(1)).optional(),
+  primaryCMId: z.string().min(1).optional(),
+  clientStatus: z.string().min(1).optional(),
+});
+
+// Manual (non-activity) line item kinds billers can add to a draft
+const manualItemKindSchema = z.enum([
+  "charge",
+  "mileage",
+  "supplies",
+  "discount",
+]);
+
+const createInvoiceItemSchema = z
+  .object({
+    kind: manualItemKindSchema.default("charge"),
+    description: z
+      .string()
+      .min(1, "description is required")
+      .max(255, "description too long"),
+    quantity: z.number().positive("quantity must be > 0").default(1),
+    // Always positive; discounts are stored as negative amounts.
+    // Optional for mileage, which defaults to the resolved mileageRate.
+    unitPrice: z.number().nonnegative("unitPrice must be >= 0").optional(),
+  })
+  .refine((b) => b.kind === "mileage" || b.unitPrice !== undefined, {
+    message: "unitPrice is required",
+    path: ["unitPrice"],
+  });
+
+const voidInvoiceSchema = z.object({
+  reason: z.string().max(500, "reason too long").optional(),
+});
+
+const createCreditNoteSchema = z.object({
+  // Omit for a full credit of the remaining balance
+  amount: z.number().positive("Credit amount must be > 0").optional(),
+  reason: z.string().max(500, "reason too long").optional(),
+});
+
+const updateInvoiceItemSchema = z.object({
+  description: z.string().min(1).max(255).optional(),
+  quantity: z.number().positive("quantity must be > 0").optional(),
+  unitPrice: z.number().nonnegative("unitPrice must be >= 0").optional(),
 });
 
 const markPaidParamsSchema = z.object({
@@ -28,68 +165,78 @@ const markPaidBodySchema = z.object({
     .min(1, "Payment method is required")
     .max(100, "Method too long"),
   reference: z.string().max(255).optional(),
+  // Split billing: which responsible party paid
+  billingPartyId: z.string().min(1).optional(),
+  // "pending" for payments that haven't cleared yet (e.g. a deposited check)
+  status: z.enum(["pending", "completed"]).optional(),
 });
 
 /**
- * Helper: round to 2 decimal places
+ * Helper: unit price + amount for a manual line.
+ * Discounts carry a negative unit price so totals simply sum.
  */
-function round2(n: number): number {
-  return Math.round(n * 100) / 100;
+function priceManualItem(kind: string, quantity: number, unitPrice: Money) {
+  const signedPrice = kind === "discount" ? unitPrice.abs().neg() : unitPrice;
+  return {
+    unitPrice: signedPrice,
+    amount: money(signedPrice.times(quantity)),
+  };
 }
 
 /**
- * Helper: get billing rule values from client/org rules
+ * Helper: load an org-scoped invoice that must still be a draft.
+ * Throws AppError (404 / 409) otherwise.
  */
-function getBillingContext(
-  clientRules: any,
-  orgRules: any
-): {
-  hourlyRate: number;
-  minDuration: number;
-  rounding: "none" | "6m" | "15m";
-} {
-  const hourlyRate =
-    Number(clientRules?.hourlyRate) || Number(orgRules?.hourlyRate) || 150;
-
-  const minDuration =
-    Number(clientRules?.minDuration) || Number(orgRules?.minDuration) || 0;
-
-  const rounding: "none" | "6m" | "15m" =
-    clientRules?.rounding === "6m" || clientRules?.rounding === "15m"
-      ? clientRules.rounding
-      : orgRules?.rounding === "6m" || orgRules?.rounding === "15m"
-      ? orgRules.rounding
-      : "none";
-
-  return { hourlyRate, minDuration, rounding };
+async function findDraftInvoice(orgId: string, id: string) {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id, orgId },
+    include: {
+      client: { select: { billingRulesJson: true } },
+      org: { select: { billingRulesJson: true } },
+    },
+  });
+
+  if (!invoice) {
+    throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  }
+
+  if (invoice.status !== "draft") {
+    throw new AppError(
+      "Only draft invoices can be edited.",
+      409,
+      "INVOICE_NOT_DRAFT"
+    );
+  }
+
+  return invoice;
 }
 
 /**
- * Helper: apply minDuration + rounding to minutes
+ * Helper: inside a line-item transaction, lock the invoice row and check
+ * it is still a draft, so a concurrent approve can't issue it mid-edit
+ * (approve waits for the lock, or the edit sees the new status and fails).
  */
-function adjustMinutes(
-  minutes: number,
-  minDuration: number,
-  rounding: "none" | "6m" | "15m"
-): number {
-  let m = minutes;
-  if (minDuration > 0 && m < minDuration) {
-    m = minDuration;
-  }
-
-  if (rounding === "6m") {
-    m = Math.round(m / 6) * 6;
-  } else if (rounding === "15m") {
-    m = Math.round(m / 15) * 15;
+async function lockDraftInvoice(tx: Tx, id: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Invoice" WHERE "id" = ${id} FOR UPDATE`;
+
+  const draft = await tx.invoice.findFirst({
+    where: { id, status: "draft" },
+    select: { id: true },
+  });
+  if (!draft) {
+    throw new AppError(
+      "Only draft invoices can be edited.",
+      409,
+      "INVOICE_NOT_DRAFT"
+    );
   }
-
-  return m;
 }
 
 /**
  * POST /api/invoices/generate
- * Body: { clientId, periodStart, periodEnd }
+ * Body: { clientId, periodStart, periodEnd, currency? }
  * Creates a draft invoice from billable activities for a given client + date range.
+ * Activities already on another invoice are skipped; if nothing is left, 409.
  * ADMIN ONLY
  */
 router.post(
@@ -100,203 +247,175 @@ router.post(
     try {
       if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-      const { clientId, periodStart, periodEnd } = req.body as {
-        clientId: string;
-        periodStart: string;
-        periodEnd: string;
-      };
-
-      // Load organization & client with rules
-      const [org, client] = await Promise.all([
-        prisma.organization.findUnique({
-          where: { id: req.user.orgId },
-          select: {
-            billingRulesJson: true,
-            currencyCode: true,
-          },
-        }),
-        prisma.client.findFirst({
-          where: {
-            id: clientId,
-            orgId: req.user.orgId,
-          },
-          select: {
-            id: true,
-            orgId: true,
-            billingRulesJson: true,
-          },
-        }),
-      ]);
+      const { clientId, periodStart, periodEnd, currency } =
+        req.body as z.infer<typeof generateInvoiceSchema>;
 
-      if (!client) {
-        return res.status(404).json({ error: "Client not found" });
-      }
+      const draft = await buildInvoiceDraft({
+        orgId: req.user.orgId,
+        clientId,
+        periodStart: new Date(periodStart),
+        periodEnd: new Date(periodEnd),
+        currency,
+      });
 
-      const orgRules = (org?.billingRulesJson as any) || {};
-      const clientRules = (client.billingRulesJson as any) || {};
-      const currencyCode = org?.currencyCode || "USD";
+      // A retainer fee can make an invoice even without new activities
+      if (!draft.lines.length) {
+        if (draft.alreadyInvoicedCount) {
+          return res.status(409).json({
+            error:
+              "All billable activities in this period are already on another invoice.",
+            code: "ACTIVITIES_ALREADY_INVOICED",
+          });
+        }
 
-      const { hourlyRate, minDuration, rounding } = getBillingContext(
-        clientRules,
-        orgRules
-      );
+        if (!draft.activityCount) {
+          return res
+            .status(400)
+            .json({ error: "No billable activities found for this period" });
+        }
 
-      const start = new Date(periodStart);
-      const end = new Date(periodEnd);
+        return res.status(400).json({
+          error:
+            "No billable activities produced any invoiceable amounts with the current rules.",
+        });
+      }
 
-      // Get billable activities in range, including service type
-      const activities = await prisma.activity.findMany({
-        where: {
-          orgId: req.user.orgId,
-          clientId: client.id,
-          isBillable: true,
-          startTime: {
-            gte: start,
-          },
-          endTime: {
-            lte: end,
-          },
-        },
-        include: {
-          serviceType: true,
-        },
-      });
+      // Create invoice + items atomically (see createDraftInvoice)
+      const fullInvoice = await createDraftInvoice(req.user.orgId, draft);
 
-      if (!activities.length) {
+      res.status(201).json(fullInvoice);
+    } catch (err) {
+      if (err instanceof AppError) {
         return res
-          .status(400)
-          .json({ error: "No billable activities found for this period" });
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
       }
+      console.error("Error generating invoice:", err);
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  }
+);
 
-      // Build invoice items
-      const items: {
-        activityId: string | null;
-        description: string;
-        quantity: number;
-        unitPrice: number;
-        amount: number;
-      }[] = [];
-
-      for (const activity of activities) {
-        const durationMinutes =
-          activity.duration ||
-          Math.max(
-            0,
-            Math.round(
-              (activity.endTime.getTime() - activity.startTime.getTime()) /
-                60000
-            )
-          );
+/**
+ * POST /api/invoices/generate-batch
+ * Body: { periodStart, periodEnd, clientIds?, primaryCMId?, clientStatus? }
+ * Creates a draft invoice for every matching client (default: all active
+ * clients) and returns a created / skipped / failed result per client.
+ * Safe to re-run: clients already invoiced for the period are skipped.
+ * ADMIN ONLY
+ */
+router.post(
+  "/generate-batch",
+  requireAdmin,
+  validate(generateBatchSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-        const svc = activity.serviceType;
-
-        let description = "Care Management Services";
-        let quantity = 0;
-        let unitPrice = 0;
-        let amount = 0;
-
-        if (svc) {
-          description = svc.name;
-          unitPrice = svc.rateAmount || 0;
-
-          if (svc.rateType === "flat") {
-            quantity = 1;
-            amount = round2(unitPrice);
-          } else {
-            const adjustedMinutes = adjustMinutes(
-              durationMinutes,
-              minDuration,
-              rounding
-            );
-            quantity = adjustedMinutes / 60;
-            amount = round2(quantity * unitPrice);
-          }
-        } else {
-          const adjustedMinutes = adjustMinutes(
-            durationMinutes,
-            minDuration,
-            rounding
-          );
-          quantity = adjustedMinutes / 60;
-          unitPrice = hourlyRate;
-          amount = round2(quantity * unitPrice);
-        }
+      const { periodStart, periodEnd, clientIds, primaryCMId, clientStatus } =
+        req.body as z.infer<typeof generateBatchSchema>;
 
-        if (amount <= 0) continue;
+      const batch = await generateInvoiceBatch({
+        orgId: req.user.orgId,
+        periodStart: new Date(periodStart),
+        periodEnd: new Date(periodEnd),
+        clientIds,
+        primaryCMId,
+        clientStatus,
+      });
 
-        items.push({
-          activityId: activity.id,
-          description,
-          quantity,
-          unitPrice,
-          amount,
-        });
-      }
+      await logAudit(req, {
+        entityType: "invoice",
+        action: "generate_batch",
+        details: `Batch ${periodStart} to ${periodEnd}: ${batch.created} created, ${batch.skipped} skipped, ${batch.failed} failed`,
+      });
 
-      if (!items.length) {
-        return res.status(400).json({
-          error:
-            "No billable activities produced any invoiceable amounts with the current rules.",
-        });
+      res.json(batch);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
       }
+      console.error("Error generating invoice batch:", err);
+      res.status(500).json({ error: "Failed to generate invoice batch" });
+    }
+  }
+);
 
-      const totalAmount = round2(items.reduce((sum, i) => sum + i.amount, 0));
-
-      // Create invoice
-      const invoice = await prisma.invoice.create({
-        data: {
-          orgId: req.user.orgId,
-          clientId: client.id,
-          periodStart: start,
-          periodEnd: end,
-          status: "draft",
-          totalAmount,
-          currency: currencyCode,
-        },
-      });
+/**
+ * POST /api/invoices/preview
+ * Body: { clientId, periodStart, periodEnd, currency? }
+ * Dry run of /generate: prices the same activities with the same rules but
+ * writes nothing. Each line shows which rule level applied (org, client or
+ * service_type), raw minutes, adjusted minutes and the resulting amount.
+ * ADMIN ONLY
+ */
+router.post(
+  "/preview",
+  requireAdmin,
+  validate(generateInvoiceSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-      // Create invoice items
-      await Promise.all(
-        items.map((item) =>
-          prisma.invoiceItem.create({
-            data: {
-              invoiceId: invoice.id,
-              activityId: item.activityId,
-              description: item.description,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              amount: item.amount,
-            },
-          })
-        )
-      );
+      const { clientId, periodStart, periodEnd, currency } =
+        req.body as z.infer<typeof generateInvoiceSchema>;
 
-      const fullInvoice = await prisma.invoice.findUnique({
-        where: { id: invoice.id },
-        include: {
-          items: true,
-          client: true,
-        },
+      const draft = await buildInvoiceDraft({
+        orgId: req.user.orgId,
+        clientId,
+        periodStart: new Date(periodStart),
+        periodEnd: new Date(periodEnd),
+        currency,
       });
 
-      res.status(201).json(fullInvoice);
+      return res.json({
+        clientId: draft.clientId,
+        periodStart: draft.periodStart,
+        periodEnd: draft.periodEnd,
+        currency: draft.currency,
+        activityCount: draft.activityCount,
+        alreadyInvoicedCount: draft.alreadyInvoicedCount,
+        totalAmount: draft.totalAmount,
+        rules: draft.billingContext,
+        retainerPlan: draft.retainerPlan,
+        lines: draft.lines.map((line) => ({
+          kind: line.kind ?? "activity",
+          activityId: line.activityId,
+          activityDate: line.activityDate,
+          activitySource: line.activitySource,
+          description: line.description,
+          ruleSource: line.ruleSource,
+          rawMinutes: line.rawMinutes,
+          adjustedMinutes: line.adjustedMinutes,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          amount: line.amount,
+        })),
+      });
     } catch (err) {
-      console.error("Error generating invoice:", err);
-      res.status(500).json({ error: "Failed to generate invoice" });
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error previewing invoice:", err);
+      res.status(500).json({ error: "Failed to preview invoice" });
     }
   }
 );
 
 /**
  * GET /api/invoices
- * Query: clientId? status?
+ * Query: clientId? status? number? (exact invoice number)
  * Care managers only see invoices for their own clients.
  */
 router.get("/", async (req: AuthRequest, res) => {
   try {
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-    const { clientId, status } = req.query;
+    const { clientId, status, number } = req.query;
 
     const where: any = {
       orgId: req.user.orgId,
@@ -304,6 +423,7 @@ router.get("/", async (req: AuthRequest, res) => {
 
     if (clientId) where.clientId = clientId;
     if (status) where.status = status;
+    if (number) where.invoiceNumber = number;
 
     // Care manager: only invoices for their clients
     if (req.user.role === "care_manager") {
@@ -327,9 +447,77 @@ router.get("/", async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * GET /api/invoices/verify
+ * ADMIN ONLY – invariant check: lists invoices whose stored totalAmount
+ * differs from the sum of their items.
+ */
+router.get("/verify", requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { checked, mismatches } = await findInvoiceTotalMismatches(
+      req.user.orgId
+    );
+
+    res.json({
+      ok: mismatches.length === 0,
+      checked,
+      mismatchCount: mismatches.length,
+      mismatches,
+    });
+  } catch (err) {
+    console.error("Error verifying invoices:", err);
+    res.status(500).json({ error: "Failed to verify invoices" });
+  }
+});
+
+/**
+ * POST /api/invoices/overdue/run
+ * ADMIN ONLY – run the overdue sweep for this org now (the background job
+ * also runs it on a timer). Marks past-due invoices overdue and applies
+ * late fees per the org's lateFeePercent.
+ */
+router.post("/overdue/run", requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const result = await runOverdueSweep({ orgId: req.user.orgId });
+
+    res.json(result);
+  } catch (err) {
+    console.error("Error running overdue sweep:", err);
+    res.status(500).json({ error: "Failed to run overdue sweep" });
+  }
+});
+
+/**
+ * POST /api/invoices/reminders/run
+ * ADMIN ONLY – send due payment reminders for this org now (the background
+ * job also runs on a timer). Uses the org's reminderScheduleDays.
+ */
+router.post(
+  "/reminders/run",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const result = await runReminderSweep({ orgId: req.user.orgId });
+
+      res.json(result);
+    } catch (err) {
+      console.error("Error running reminder sweep:", err);
+      res.status(500).json({ error: "Failed to run reminder sweep" });
+    }
+  }
+);
+
 /**
  * GET /api/invoices/export/csv
  * Care managers only export invoices for their clients.
+ * Numbers follow the org locale (";"-separated where "," is the decimal
+ * mark); "Total (<base>)" is blank when no exchange rate is stored.
  */
 router.get("/export/csv", async (req: AuthRequest, res) => {
   try {
@@ -357,37 +545,66 @@ router.get("/export/csv", async (req: AuthRequest, res) => {
       },
     });
 
+    const org = await prisma.organization.findUnique({
+      where: { id: req.user.orgId },
+      select: { billingRulesJson: true },
+    });
+    const { locale } = normalizeStoredOrgRules(org?.billingRulesJson);
+    const delimiter = csvDelimiter(locale);
+    const converter = await loadRateConverter(req.user.orgId);
+    const base = converter.baseCurrency;
+
     const header = [
+      "Invoice Number",
       "Invoice ID",
       "Client Name",
       "Status",
       "Total Amount",
       "Currency",
+      "Exchange Rate",
+      `Total (${base})`,
       "Period Start",
       "Period End",
+      "Due Date",
     ];
 
-    const rows = invoices.map((inv) => [
-      inv.id,
-      inv.client?.name ?? "",
-      inv.status,
-      inv.totalAmount?.toFixed(2) ?? "0.00",
-      inv.currency ?? "USD",
-      inv.periodStart ? inv.periodStart.toISOString().slice(0, 10) : "",
-      inv.periodEnd ? inv.periodEnd.toISOString().slice(0, 10) : "",
-    ]);
+    const rows = invoices.map((inv) => {
+      const currency = inv.currency ?? "USD";
+      // The rate fixed at issue, else today's (drafts)
+      const rate = inv.exchangeRate ?? converter.rateOn(currency);
+      const baseTotal = converter.convert(inv.totalAmount, currency, {
+        exchangeRate: inv.exchangeRate ?? undefined,
+      });
+
+      return [
+        inv.invoiceNumber ?? "",
+        inv.id,
+        inv.client?.name ?? "",
+        inv.status,
+        formatAmount(inv.totalAmount, currency, locale),
+        currency,
+        rate ? formatRate(rate, locale) : "",
+        baseTotal ? formatAmount(baseTotal, base, locale) : "",
+        inv.periodStart ? inv.periodStart.toISOString().slice(0, 10) : "",
+        inv.periodEnd ? inv.periodEnd.toISOString().slice(0, 10) : "",
+        inv.dueDate ? inv.dueDate.toISOString().slice(0, 10) : "",
+      ];
+    });
 
     const csvLines = [header, ...rows]
       .map((cols) =>
         cols
           .map((c) => {
             const v = c ?? "";
-            if (typeof v === "string" && (v.includes(",") || v.includes('"'))) {
+            if (
+              typeof v === "string" &&
+              (v.includes(delimiter) || v.includes('"'))
+            ) {
               return `"${v.replace(/"/g, '""')}"`;
             }
             return v;
           })
-          .join(",")
+          .join(delimiter)
       )
       .join("\n");
 
@@ -409,7 +626,11 @@ router.get("/export/csv", async (req: AuthRequest, res) => {
 
 /**
  * GET /api/invoices/:id/pdf
- * Generates a more polished PDF using PDFKit.
+ * Downloads the invoice PDF. Issued invoices serve the copy stored when
+ * they were approved (Invoice.pdfUrl points here), re-stored once a late
+ * fee is added; drafts render live unless a copy was stored with
+ * POST /api/invoices/:id/pdf/regenerate.
+ * Care managers only download invoices for their clients.
  */
 router.get("/:id/pdf", async (req: AuthRequest, res) => {
   try {
@@ -418,251 +639,90 @@ router.get("/:id/pdf", async (req: AuthRequest, res) => {
     const { id } = req.params;
 
     const invoice = await prisma.invoice.findFirst({
-      where: { id, orgId: req.user.orgId },
-      include: {
-        client: true,
-        items: true,
-        payments: {
-          orderBy: {
-            paidAt: "asc",
-          },
-        },
-      },
+      where: { id: id as string, orgId: req.user.orgId },
+      select: { client: { select: { primaryCMId: true } } },
     });
 
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
     }
 
-    // Load org with branding/settings
-    const org = await prisma.organization.findUnique({
-      where: { id: req.user.orgId },
-      select: {
-        name: true,
-        currencyCode: true,
-        invoicePrefix: true,
-        invoiceFooter: true,
-        brandColor: true,
-      },
-    });
-
-    const orgName = org?.name ?? "ElderFlow";
-    const currencyCode = org?.currencyCode || invoice.currency || "USD";
-    const invoicePrefix = org?.invoicePrefix || "";
-    const invoiceFooter = org?.invoiceFooter || "";
-    const brandColor = "#FF0000"; // slate-900
-
-    const invoiceNumberDisplay = `${invoicePrefix}${invoice.id.slice(0, 8)}`;
-    const clientName = invoice.client?.name ?? "Unknown client";
-    const totalAmount = invoice.totalAmount ?? 0;
+    if (
+      req.user.role === "care_manager" &&
+      invoice.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this invoice." });
+    }
 
-    const completedPayments = (invoice.payments ?? []).filter(
-      (p) => p.status === "completed"
-    );
-    const totalPaid = completedPayments.reduce(
-      (sum, p) => sum + (p.amount || 0),
-      0
-    );
-    const balance = totalAmount - totalPaid;
+    const pdf = await invoicePdfBuffer(req.user.orgId, id as string);
 
-    // --- Set up PDFKit document ---
-    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    if (!pdf) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
 
     res.setHeader("Content-Type", "application/pdf");
     res.setHeader(
       "Content-Disposition",
-      `attachment; filename="invoice-${invoiceNumberDisplay}.pdf"`
-    );
-
-    doc.pipe(res);
-
-    // HEADER
-    doc
-      .fillColor(brandColor)
-      .fontSize(18)
-      .text(orgName, { align: "left" })
-      .moveDown(0.2);
-
-    doc
-      .fontSize(10)
-      .fillColor("#6B7280") // slate-500
-      .text("Invoice generated by ElderFlow", { align: "left" })
-      .moveDown(1);
-
-    doc
-      .fontSize(20)
-      .fillColor(brandColor)
-      .text("INVOICE", { align: "right" })
-      .moveDown(0.5);
-
-    // Invoice identity + meta
-    doc.fontSize(10).fillColor("#111827"); // slate-900
-
-    doc.text(`Invoice #: ${invoiceNumberDisplay}`);
-    doc.text(
-      `Period: ${
-        invoice.periodStart
-          ? invoice.periodStart.toISOString().slice(0, 10)
-          : "—"
-      } to ${
-        invoice.periodEnd
-          ? invoice.periodEnd.toISOString().slice(0, 10)
-          : "—"
-      }`
+      `attachment; filename="${pdf.fileName}"`
     );
-    doc.text(
-      `Status: ${
-        (invoice.status || "").toString().toUpperCase() || "UNKNOWN"
-      }`
-    );
-    doc.moveDown(0.5);
-
-    // Client / billing info
-    doc.text(`Client: ${clientName}`);
-    if (invoice.client?.billingContactName) {
-      doc.text(`Billing contact: ${invoice.client.billingContactName}`);
-    }
-    if (invoice.client?.billingContactEmail) {
-      doc.text(`Billing email: ${invoice.client.billingContactEmail}`);
-    }
-    if (invoice.client?.billingContactPhone) {
-      doc.text(`Billing phone: ${invoice.client.billingContactPhone}`);
-    }
-
-    doc.moveDown(1);
-
-    // LINE ITEMS TABLE
-    doc
-      .fontSize(12)
-      .fillColor("#111827")
-      .text("Line items", { underline: true })
-      .moveDown(0.3);
-
-    doc.fontSize(10);
-
-    if (!invoice.items.length) {
-      doc.text("No line items on this invoice.");
-    } else {
-      const tableTop = doc.y;
-      const colDescription = 50;
-      const colHours = 320;
-      const colRate = 380;
-      const colAmount = 450;
-
-      // Header row
-      doc
-        .font("Helvetica-Bold")
-        .text("Description", colDescription, tableTop)
-        .text("Hours", colHours, tableTop)
-        .text("Rate", colRate, tableTop)
-        .text("Amount", colAmount, tableTop);
-
-      doc
-        .moveTo(colDescription, tableTop + 12)
-        .lineTo(550, tableTop + 12)
-        .strokeColor("#CCCCCC")
-        .stroke();
-
-      doc.font("Helvetica");
-
-      let y = tableTop + 18;
-
-      invoice.items.forEach((item) => {
-        if (y > 720) {
-          doc.addPage();
-          y = 50;
-        }
+    res.send(pdf.content);
+  } catch (err) {
+    console.error("Error generating invoice PDF:", err);
+    res.status(500).json({ error: "Failed to generate invoice PDF" });
+  }
+});
 
-        doc.text(item.description, colDescription, y, {
-          width: colHours - colDescription - 10,
-        });
+/**
+ * POST /api/invoices/:id/pdf/regenerate
+ * ADMIN ONLY – render a DRAFT invoice's PDF again and store it as the copy
+ * served by GET /api/invoices/:id/pdf. Issued invoices keep the copy from
+ * approval.
+ */
+router.post(
+  "/:id/pdf/regenerate",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-        doc.text(item.quantity.toFixed(2), colHours, y, { width: 50 });
-        doc.text(
-          `${currencyCode} ${item.unitPrice.toFixed(2)}`,
-          colRate,
-          y,
-          { width: 80 }
-        );
-        doc.text(
-          `${currencyCode} ${item.amount.toFixed(2)}`,
-          colAmount,
-          y,
-          { width: 80 }
-        );
+      const { id } = req.params;
 
-        y += 18;
+      const invoice = await prisma.invoice.findFirst({
+        where: { id: id as string, orgId: req.user.orgId },
       });
 
-      doc.moveDown(2);
-    }
-
-    // TOTALS SECTION
-    doc.moveDown(1);
-    doc.font("Helvetica-Bold").text("Totals", { underline: true }).moveDown(0.3);
-    doc.font("Helvetica");
-
-    doc.text(`Total amount: ${currencyCode} ${totalAmount.toFixed(2)}`);
-    doc.text(`Total paid:   ${currencyCode} ${totalPaid.toFixed(2)}`);
-    doc.text(`Balance due:  ${currencyCode} ${balance.toFixed(2)}`);
-
-    doc.moveDown(1);
-
-    // PAYMENTS SECTION
-    doc.font("Helvetica-Bold").text("Payments", { underline: true });
-    doc.moveDown(0.3);
-    doc.font("Helvetica");
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
 
-    if (!invoice.payments.length) {
-      doc.text("No payments recorded for this invoice.");
-    } else {
-      invoice.payments.forEach((p) => {
-        const paidDate = p.paidAt
-          ? new Date(p.paidAt).toLocaleString()
-          : "N/A";
+      if (invoice.status !== "draft") {
+        return res.status(409).json({
+          error: "Only a draft invoice's PDF can be regenerated.",
+          code: "INVOICE_NOT_DRAFT",
+        });
+      }
 
-        const refText =
-          p.reference && p.reference.trim().length > 0
-            ? ` – Ref: ${p.reference}`
-            : "";
+      const stored = await storeInvoicePdf(req.user.orgId, invoice.id);
+      if (!stored) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
 
-        doc.text(
-          `${paidDate} – ${p.method} – ${currencyCode} ${p.amount.toFixed(
-            2
-          )} – ${p.status}${refText}`
-        );
+      await logAudit(req, {
+        entityType: "invoice",
+        entityId: invoice.id,
+        action: "regenerate_pdf",
+        details: `Stored ${stored.invoice.pdfStorageKey}`,
       });
-    }
 
-    doc.moveDown(2);
-
-    // FOOTER
-    if (invoiceFooter) {
-      doc
-        .fontSize(8)
-        .fillColor("#6B7280")
-        .text(invoiceFooter, 50, doc.page.height - 80, {
-          width: 500,
-          align: "center",
-        });
-    } else {
-      doc
-        .fontSize(8)
-        .fillColor("gray")
-        .text(
-          "This invoice is for informational purposes only. Refer to ElderFlow for the latest status and details.",
-          {
-            align: "center",
-          }
-        );
+      res.json(stored.invoice);
+    } catch (err) {
+      console.error("Error regenerating invoice PDF:", err);
+      res.status(500).json({ error: "Failed to regenerate invoice PDF" });
     }
-
-    doc.end();
-  } catch (err) {
-    console.error("Error generating invoice PDF:", err);
-    res.status(500).json({ error: "Failed to generate invoice PDF" });
   }
-});
+);
 
 /**
  * GET /api/invoices/:id
@@ -670,7 +730,11 @@ router.get("/:id/pdf", async (req: AuthRequest, res) => {
  * Includes:
  * - items
  * - payments (sorted by paidAt)
- * - totalPaid
+ * - creditNotes (sorted by issuedAt)
+ * - totalPaid (net of refunds)
+ * - totalCredited
+ * - totalRefunded
+ * - pendingAmount (payments not yet cleared)
  * - balance
  * - paidAmount (alias for totalPaid)
  * - balanceRemaining (alias for balance)
@@ -691,8 +755,13 @@ router.get("/:id", async (req: AuthRequest, res) => {
             paidAt: "asc",
           },
         },
-        client: {
-          include: {
+        creditNotes: {
+          orderBy: {
+            issuedAt: "asc",
+          },
+        },
+        client: {
+          include: {
             primaryCM: true,
           },
         },
@@ -714,41 +783,67 @@ router.get("/:id", async (req: AuthRequest, res) => {
         .json({ error: "You are not allowed to view this invoice." });
     }
 
-    const completedPayments = (invoice.payments ?? []).filter(
-      (p) => p.status === "completed"
+    const { totalPaid, totalCredited, balance } = invoiceBalance(
+      invoice.totalAmount,
+      invoice.payments ?? [],
+      invoice.creditNotes ?? []
     );
 
-    const totalPaid = completedPayments.reduce(
-      (sum, p) => sum + (p.amount || 0),
-      0
+    // totalPaid is net of refunds; pending payments don't count yet
+    const completed = (invoice.payments ?? []).filter(
+      (p) => p.status === "completed"
+    );
+    const totalRefunded = sumMoney(
+      completed
+        .filter((p) => p.kind === "refund")
+        .map((p) => money(p.amount).abs())
+    );
+    const pendingAmount = sumMoney(
+      (invoice.payments ?? [])
+        .filter((p) => p.status === "pending")
+        .map((p) => p.amount)
     );
 
-    const balance = (invoice.totalAmount || 0) - totalPaid;
+    const split = await describeInvoiceSplit(invoice);
 
     return res.json({
       id: invoice.id,
       orgId: invoice.orgId,
       clientId: invoice.clientId,
       client: invoice.client,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceSequence: invoice.invoiceSequence,
       periodStart: invoice.periodStart,
       periodEnd: invoice.periodEnd,
       status: invoice.status,
       totalAmount: invoice.totalAmount,
       currency: invoice.currency,
       pdfUrl: invoice.pdfUrl,
+      pdfGeneratedAt: invoice.pdfGeneratedAt,
       sentAt: invoice.sentAt,
+      dueDate: invoice.dueDate,
+      lateFeeAppliedAt: invoice.lateFeeAppliedAt,
       paidAt: invoice.paidAt,
+      voidedAt: invoice.voidedAt,
+      voidReason: invoice.voidReason,
       createdAt: invoice.createdAt,
       updatedAt: invoice.updatedAt,
 
       items: invoice.items,
       payments: invoice.payments,
+      creditNotes: invoice.creditNotes,
 
       totalPaid,
+      totalCredited,
+      totalRefunded,
+      pendingAmount,
       balance,
 
       paidAmount: totalPaid,
       balanceRemaining: balance,
+
+      // Per-party shares and balances (null = single payer)
+      split,
     });
   } catch (err) {
     console.error("Error fetching invoice:", err);
@@ -758,9 +853,78 @@ router.get("/:id", async (req: AuthRequest, res) => {
 
 /**
  * POST /api/invoices/:id/approve
- * ADMIN ONLY – mark invoice as "sent"
+ * ADMIN ONLY – mark invoice as "sent" (draft -> sent via the lifecycle).
+ * First approval assigns the next sequential invoice number, and the
+ * invoice PDF is stored as issued (pdfUrl).
+ * Body (optional): { sendEmail?: boolean } – unless false, the invoice PDF
+ * is emailed to the billing contact; the attempt is returned as `delivery`
+ * (see GET /api/invoices/:id/deliveries).
  */
 router.post("/:id/approve", requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    let updated = await prisma.$transaction(async (tx) => {
+      const sent = await transitionInvoice(tx, {
+        orgId: req.user!.orgId,
+        invoiceId: id,
+        to: "sent",
+        changedById: req.user!.userId,
+        reason: "Approved",
+      });
+
+      // Credit held on the client account pays the new invoice first
+      const creditApplied = await applyClientCredit(tx, {
+        orgId: req.user!.orgId,
+        clientId: sent.clientId,
+        changedById: req.user!.userId,
+      });
+      if (creditApplied.isZero()) return sent;
+
+      return tx.invoice.findUniqueOrThrow({ where: { id: sent.id } });
+    });
+
+    // After commit: keep the PDF as issued (the email attaches this copy).
+    // A storage failure is retried on the next download.
+    try {
+      const stored = await storeInvoicePdf(req.user.orgId, updated.id);
+      if (stored) updated = stored.invoice;
+    } catch (err) {
+      console.error(`Error storing PDF for invoice ${updated.id}:`, err);
+    }
+
+    // A mail problem is recorded, not fatal to approval
+    const delivery =
+      req.body?.sendEmail === false
+        ? null
+        : await sendInvoiceEmail({
+            orgId: req.user.orgId,
+            invoiceId: updated.id,
+            trigger: "approve",
+            sentById: req.user.userId,
+          });
+
+    res.json({ ...updated, delivery });
+  } catch (err) {
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
+    console.error("Error approving invoice:", err);
+    res.status(500).json({ error: "Failed to approve invoice" });
+  }
+});
+
+/**
+ * POST /api/invoices/:id/regenerate
+ * ADMIN ONLY – re-price a DRAFT invoice for its own period and atomically
+ * replace its activity items. Activities on other invoices stay excluded;
+ * newly logged activities in the period are picked up; manual items are kept.
+ */
+router.post("/:id/regenerate", requireAdmin, async (req: AuthRequest, res) => {
   try {
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
@@ -777,23 +941,319 @@ router.post("/:id/approve", requireAdmin, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: "Invoice not found" });
     }
 
-    const updated = await prisma.invoice.update({
-      where: { id: invoice.id },
-      data: {
-        status: "sent",
-        sentAt: new Date(),
-      },
+    if (invoice.status !== "draft") {
+      return res.status(409).json({
+        error: "Only draft invoices can be regenerated.",
+        code: "INVOICE_NOT_DRAFT",
+      });
+    }
+
+    const draft = await buildInvoiceDraft({
+      orgId: req.user.orgId,
+      clientId: invoice.clientId,
+      periodStart: invoice.periodStart,
+      periodEnd: invoice.periodEnd,
+      excludeInvoiceId: invoice.id,
+      // Keep the currency the draft was created in
+      currency: invoice.currency,
+    });
+
+    if (!draft.lines.length) {
+      return res.status(400).json({
+        error:
+          "No billable activities produced any invoiceable amounts with the current rules.",
+      });
+    }
+
+    const fullInvoice = await prisma.$transaction(async (tx) => {
+      await lockDraftInvoice(tx, invoice.id);
+
+      // Manual lines (charges, mileage, discounts) survive regeneration
+      await tx.invoiceItem.deleteMany({
+        where: {
+          invoiceId: invoice.id,
+          kind: { in: [...GENERATED_ITEM_KINDS] },
+        },
+      });
+      await tx.invoiceItem.createMany({
+        data: draft.lines.map((line) => ({
+          invoiceId: invoice.id,
+          ...draftLineItemData(line),
+        })),
+      });
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: { currency: draft.currency },
+      });
+      await recomputeInvoiceTotal(tx, invoice.id);
+
+      return tx.invoice.findUnique({
+        where: { id: invoice.id },
+        include: {
+          items: true,
+          client: true,
+        },
+      });
     });
 
-    res.json(updated);
+    res.json(fullInvoice);
   } catch (err) {
-    console.error("Error approving invoice:", err);
-    res.status(500).json({ error: "Failed to approve invoice" });
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
+    console.error("Error regenerating invoice:", err);
+    res.status(500).json({ error: "Failed to regenerate invoice" });
   }
 });
 
+/**
+ * POST /api/invoices/:id/items
+ * ADMIN ONLY – add a manual line (charge, mileage, supplies, discount)
+ * to a DRAFT invoice. Body: { kind?, description, quantity?, unitPrice? }
+ */
+router.post(
+  "/:id/items",
+  requireAdmin,
+  validate(createInvoiceItemSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params;
+      const { kind, description, quantity, unitPrice } = req.body as z.infer<
+        typeof createInvoiceItemSchema
+      >;
+
+      const invoice = await findDraftInvoice(req.user.orgId, id);
+
+      const basePrice =
+        unitPrice !== undefined
+          ? decimal(unitPrice)
+          : decimal(
+              getBillingContext(
+                invoice.client.billingRulesJson,
+                invoice.org.billingRulesJson
+              ).mileageRate
+            );
+      const priced = priceManualItem(kind, quantity, basePrice);
+
+      const item = await prisma.$transaction(async (tx) => {
+        await lockDraftInvoice(tx, invoice.id);
+        const created = await tx.invoiceItem.create({
+          data: {
+            invoiceId: invoice.id,
+            activityId: null,
+            kind,
+            description: description.trim(),
+            quantity,
+            unitPrice: priced.unitPrice,
+            amount: priced.amount,
+          },
+        });
+        await recomputeInvoiceTotal(tx, invoice.id);
+        return created;
+      });
+
+      await logAudit(req, {
+        entityType: "invoice_item",
+        entityId: item.id,
+        action: "create",
+        details: `Added ${kind} line "${item.description}" (${formatMoney(
+          item.amount
+        )}) to invoice ${invoice.id}`,
+      });
+
+      const updated = await prisma.invoice.findUnique({
+        where: { id: invoice.id },
+        include: { items: true },
+      });
+
+      return res.status(201).json({ item, invoice: updated });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error adding invoice item:", err);
+      return res.status(500).json({ error: "Failed to add invoice item" });
+    }
+  }
+);
+
+/**
+ * PATCH /api/invoices/:id/items/:itemId
+ * ADMIN ONLY – edit description / quantity / unitPrice of a line on a DRAFT.
+ */
+router.patch(
+  "/:id/items/:itemId",
+  requireAdmin,
+  validate(updateInvoiceItemSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id, itemId } = req.params;
+      const { description, quantity, unitPrice } = req.body as z.infer<
+        typeof updateInvoiceItemSchema
+      >;
+
+      if (
+        description === undefined &&
+        quantity === undefined &&
+        unitPrice === undefined
+      ) {
+        return res.status(400).json({
+          error:
+            "No fields to update. Allowed fields: description, quantity, unitPrice.",
+        });
+      }
+
+      const invoice = await findDraftInvoice(req.user.orgId, id);
+
+      const existing = await prisma.invoiceItem.findFirst({
+        where: { id: itemId, invoiceId: invoice.id },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ error: "Invoice item not found" });
+      }
+
+      const nextQuantity = quantity ?? existing.quantity;
+      const priced = priceManualItem(
+        existing.kind,
+        nextQuantity,
+        unitPrice !== undefined
+          ? decimal(unitPrice)
+          : decimal(existing.unitPrice).abs()
+      );
+
+      const item = await prisma.$transaction(async (tx) => {
+        await lockDraftInvoice(tx, invoice.id);
+        const updated = await tx.invoiceItem.update({
+          where: { id: existing.id },
+          data: {
+            ...(description !== undefined
+              ? { description: description.trim() }
+              : {}),
+            quantity: nextQuantity,
+            unitPrice: priced.unitPrice,
+            amount: priced.amount,
+          },
+        });
+        await recomputeInvoiceTotal(tx, invoice.id);
+        return updated;
+      });
+
+      const changes: string[] = [];
+      if (description !== undefined && description !== existing.description) {
+        changes.push(
+          `description: "${existing.description}" -> "${item.description}"`
+        );
+      }
+      if (quantity !== undefined && quantity !== existing.quantity) {
+        changes.push(`quantity: ${existing.quantity} -> ${item.quantity}`);
+      }
+      if (!item.amount.equals(existing.amount)) {
+        changes.push(
+          `amount: ${formatMoney(existing.amount)} -> ${formatMoney(
+            item.amount
+          )}`
+        );
+      }
+
+      await logAudit(req, {
+        entityType: "invoice_item",
+        entityId: item.id,
+        action: "update",
+        details: `Updated line on invoice ${invoice.id}${
+          changes.length ? `: ${changes.join("; ")}` : ""
+        }`,
+      });
+
+      const updated = await prisma.invoice.findUnique({
+        where: { id: invoice.id },
+        include: { items: true },
+      });
+
+      return res.json({ item, invoice: updated });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error updating invoice item:", err);
+      return res.status(500).json({ error: "Failed to update invoice item" });
+    }
+  }
+);
+
+/**
+ * DELETE /api/invoices/:id/items/:itemId
+ * ADMIN ONLY – remove a line from a DRAFT invoice. Removing an activity
+ * line frees that activity to be invoiced again.
+ */
+router.delete(
+  "/:id/items/:itemId",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id, itemId } = req.params;
+
+      const invoice = await findDraftInvoice(req.user.orgId, id);
+
+      const existing = await prisma.invoiceItem.findFirst({
+        where: { id: itemId, invoiceId: invoice.id },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ error: "Invoice item not found" });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await lockDraftInvoice(tx, invoice.id);
+        await tx.invoiceItem.delete({ where: { id: existing.id } });
+        await recomputeInvoiceTotal(tx, invoice.id);
+      });
+
+      await logAudit(req, {
+        entityType: "invoice_item",
+        entityId: existing.id,
+        action: "delete",
+        details: `Removed line "${existing.description}" (${formatMoney(
+          existing.amount
+        )}) from invoice ${invoice.id}`,
+      });
+
+      const updated = await prisma.invoice.findUnique({
+        where: { id: invoice.id },
+        include: { items: true },
+      });
+
+      return res.json({ ok: true, invoice: updated });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error deleting invoice item:", err);
+      return res.status(500).json({ error: "Failed to delete invoice item" });
+    }
+  }
+);
+
 /**
  * POST /api/invoices/:id/mark-paid
+ * Body: { amount, method, reference?, billingPartyId?, status? }
+ * Records a payment; status "pending" records it without counting it
+ * toward the balance until it is confirmed (POST /api/payments/:id/confirm).
+ * Any amount over the balance is held as client credit (unappliedCredit).
  * ADMIN ONLY
  */
 router.post(
@@ -806,85 +1266,394 @@ router.post(
       if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
       const { id } = req.params as { id: string };
-      const { amount, method, reference } = req.body as {
-        amount: number;
-        method: string;
-        reference?: string;
-      };
+      const { amount, method, reference, billingPartyId, status } =
+        req.body as z.infer<typeof markPaidBodySchema>;
+
+      const result = await recordInvoicePayment({
+        orgId: req.user.orgId,
+        invoiceId: id,
+        amount,
+        method,
+        reference,
+        billingPartyId,
+        status,
+        changedById: req.user.userId,
+      });
+
+      res.json({
+        invoice: result.invoice,
+        balanceRemaining: result.balanceRemaining,
+        // Overpayment held on the client account (see /api/client-payments)
+        clientPaymentId: result.clientPayment?.id ?? null,
+        unappliedCredit: result.unappliedCredit,
+      });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error marking invoice as paid", err);
+      res.status(500).json({ error: "Failed to mark invoice as paid" });
+    }
+  }
+);
+
+/**
+ * POST /api/invoices/:id/void
+ * ADMIN ONLY – void an invoice. Drafts are simply voided; for issued
+ * invoices the remaining balance is reversed with a full credit note.
+ * Invoices with completed payments must be credited instead.
+ * Voiding releases the invoice's activities so they can be billed again.
+ * Body: { reason? }
+ */
+router.post(
+  "/:id/void",
+  requireAdmin,
+  validate(voidInvoiceSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params;
+      const { reason } = req.body as { reason?: string };
 
       const invoice = await prisma.invoice.findFirst({
-        where: {
-          id,
-          orgId: req.user.orgId,
-        },
-        include: {
-          payments: true,
-        },
+        where: { id, orgId: req.user.orgId },
+        include: { payments: true, creditNotes: true },
       });
 
       if (!invoice) {
         return res.status(404).json({ error: "Invoice not found" });
       }
 
-      const payment = await prisma.payment.create({
-        data: {
-          orgId: req.user.orgId,
+      const { balance } = invoiceBalance(
+        invoice.totalAmount,
+        invoice.payments,
+        invoice.creditNotes
+      );
+
+      const result = await prisma.$transaction(async (tx) => {
+        // Lifecycle guards refuse void invoices and invoices with payments
+        await transitionInvoice(tx, {
+          orgId: invoice.orgId,
           invoiceId: invoice.id,
-          status: "completed",
-          amount,
-          method,
-          reference: reference || null,
-          paidAt: new Date(),
-        },
+          to: "void",
+          changedById: req.user!.userId,
+          reason: reason ?? null,
+        });
+
+        let creditNote = null;
+
+        if (invoice.status !== "draft" && balance.gt(0)) {
+          creditNote = await tx.creditNote.create({
+            data: {
+              orgId: invoice.orgId,
+              invoiceId: invoice.id,
+              clientId: invoice.clientId,
+              amount: balance,
+              currency: invoice.currency,
+              reason: reason ? `Void: ${reason}` : "Invoice voided",
+              createdById: req.user!.userId,
+            },
+          });
+        }
+
+        const updated = await tx.invoice.findUniqueOrThrow({
+          where: { id: invoice.id },
+          include: { items: true, creditNotes: true },
+        });
+
+        return { invoice: updated, creditNote };
       });
 
-      const allPayments = [...(invoice.payments ?? []), payment].filter(
-        (p) => p.status === "completed"
-      );
-      const totalPaid = allPayments.reduce(
-        (sum, p) => sum + (p.amount || 0),
-        0
-      );
+      await logAudit(req, {
+        entityType: "invoice",
+        entityId: invoice.id,
+        action: "void",
+        details: `Voided invoice ${invoice.id} (was ${invoice.status})${
+          result.creditNote
+            ? `; credit note ${result.creditNote.id} for ${formatMoney(
+                result.creditNote.amount
+              )}`
+            : ""
+        }${reason ? `: ${reason}` : ""}`,
+      });
+
+      return res.json(result);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error voiding invoice:", err);
+      return res.status(500).json({ error: "Failed to void invoice" });
+    }
+  }
+);
+
+/**
+ * GET /api/invoices/:id/credit-notes
+ * Care managers can only view credit notes for their own clients.
+ */
+router.get("/:id/credit-notes", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, orgId: req.user.orgId },
+      include: {
+        client: { select: { primaryCMId: true } },
+        creditNotes: { orderBy: { issuedAt: "asc" } },
+      },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      invoice.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this invoice." });
+    }
+
+    return res.json(invoice.creditNotes);
+  } catch (err) {
+    console.error("Error fetching credit notes:", err);
+    return res.status(500).json({ error: "Failed to fetch credit notes" });
+  }
+});
 
-      const remaining = (invoice.totalAmount || 0) - totalPaid;
+/**
+ * POST /api/invoices/:id/credit-notes
+ * ADMIN ONLY – issue a partial or full credit against an issued invoice.
+ * Body: { amount?, reason? } – amount defaults to the remaining balance.
+ */
+router.post(
+  "/:id/credit-notes",
+  requireAdmin,
+  validate(createCreditNoteSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id } = req.params;
+      const { amount, reason } = req.body as {
+        amount?: number;
+        reason?: string;
+      };
+
+      const invoice = await prisma.invoice.findFirst({
+        where: { id, orgId: req.user.orgId },
+      });
+
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
 
-      let updatedStatus: InvoiceStatus = invoice.status;
-      let paidAt = invoice.paidAt;
+      const creditNote = await prisma.$transaction(async (tx) => {
+        // Lock the invoice so two credits can't both fit under the cap
+        await tx.$queryRaw`SELECT "id" FROM "Invoice" WHERE "id" = ${invoice.id} FOR UPDATE`;
 
-      if (remaining <= 0) {
-        updatedStatus = "paid";
-        if (!paidAt) {
-          paidAt = new Date();
+        const current = await tx.invoice.findUniqueOrThrow({
+          where: { id: invoice.id },
+          include: { creditNotes: true },
+        });
+
+        if (current.status === "draft" || current.status === "void") {
+          throw new AppError(
+            "Credit notes can only be issued against sent invoices.",
+            409,
+            "INVOICE_NOT_ISSUED"
+          );
+        }
+
+        // Can't credit more than was invoiced (payments may still be
+        // refunded separately, so the cap is the invoice total, not the
+        // balance)
+        const { totalCredited } = invoiceBalance(
+          current.totalAmount,
+          [],
+          current.creditNotes
+        );
+        const creditable = money(current.totalAmount).minus(totalCredited);
+        const creditAmount =
+          amount !== undefined ? money(amount) : creditable;
+
+        if (creditAmount.lte(0) || creditAmount.gt(creditable)) {
+          throw new AppError(
+            `Credit amount must be between 0.01 and ${formatMoney(
+              creditable
+            )}.`,
+            400,
+            "INVALID_CREDIT_AMOUNT"
+          );
         }
+
+        const created = await tx.creditNote.create({
+          data: {
+            orgId: current.orgId,
+            invoiceId: current.id,
+            clientId: current.clientId,
+            amount: creditAmount,
+            currency: current.currency,
+            reason: reason ?? null,
+            createdById: req.user!.userId,
+          },
+        });
+
+        // A credit that clears the balance settles the invoice
+        await syncPaymentStatus(tx, {
+          orgId: current.orgId,
+          invoiceId: current.id,
+          changedById: req.user!.userId,
+          reason: "Credit note issued",
+        });
+
+        return created;
+      });
+
+      await logAudit(req, {
+        entityType: "credit_note",
+        entityId: creditNote.id,
+        action: "create",
+        details: `Issued credit note for ${formatMoney(
+          creditNote.amount
+        )} against invoice ${invoice.id}${reason ? `: ${reason}` : ""}`,
+      });
+
+      return res.status(201).json(creditNote);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
       }
+      console.error("Error issuing credit note:", err);
+      return res.status(500).json({ error: "Failed to issue credit note" });
+    }
+  }
+);
 
-      const updatedInvoice = await prisma.invoice.update({
-        where: { id: invoice.id },
-        data: {
-          status: updatedStatus,
-          paidAt,
-        },
-        include: {
-          items: true,
-          payments: true,
-          client: true,
-        },
+/**
+ * GET /api/invoices/:id/credit-notes/:creditNoteId/pdf
+ * Credit note PDF, styled like the invoice PDF.
+ */
+router.get(
+  "/:id/credit-notes/:creditNoteId/pdf",
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { id, creditNoteId } = req.params;
+
+      const creditNote = await prisma.creditNote.findFirst({
+        where: { id: creditNoteId, invoiceId: id, orgId: req.user.orgId },
+        include: { invoice: true, client: true },
       });
 
-      res.json({
-        invoice: updatedInvoice,
-        balanceRemaining: remaining > 0 ? remaining : 0,
+      if (!creditNote) {
+        return res.status(404).json({ error: "Credit note not found" });
+      }
+
+      if (
+        req.user.role === "care_manager" &&
+        creditNote.client.primaryCMId !== req.user.userId
+      ) {
+        return res
+          .status(403)
+          .json({ error: "You are not allowed to view this credit note." });
+      }
+
+      const org = await prisma.organization.findUnique({
+        where: { id: req.user.orgId },
+        select: {
+          name: true,
+          invoiceFooter: true,
+          billingRulesJson: true,
+        },
       });
+
+      const orgName = org?.name ?? "ElderFlow";
+      const { locale } = normalizeStoredOrgRules(org?.billingRulesJson);
+      const amount = (value: MoneyInput) =>
+        formatCurrency(value, creditNote.currency, locale);
+      const creditNoteNumber = `CN-${creditNote.id.slice(0, 8)}`;
+      const invoiceNumberDisplay = displayInvoiceNumber(creditNote.invoice);
+
+      const doc = new PDFDocument({ size: "A4", margin: 50 });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="credit-note-${creditNoteNumber}.pdf"`
+      );
+
+      doc.pipe(res);
+
+      doc.fillColor("#111827").fontSize(18).text(orgName).moveDown(0.2);
+      doc
+        .fontSize(20)
+        .text("CREDIT NOTE", { align: "right" })
+        .moveDown(0.5);
+
+      doc.fontSize(10);
+      doc.text(`Credit note #: ${creditNoteNumber}`);
+      doc.text(`Issued: ${creditNote.issuedAt.toISOString().slice(0, 10)}`);
+      doc.text(`Against invoice #: ${invoiceNumberDisplay}`);
+      doc.text(`Status: ${creditNote.status.toUpperCase()}`);
+      doc.moveDown(0.5);
+
+      doc.text(`Client: ${creditNote.client.name}`);
+      if (creditNote.client.billingContactName) {
+        doc.text(`Billing contact: ${creditNote.client.billingContactName}`);
+      }
+      doc.moveDown(1);
+
+      if (creditNote.reason) {
+        doc.text(`Reason: ${creditNote.reason}`).moveDown(0.5);
+      }
+
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(12)
+        .text(
+          `Amount credited: ${amount(creditNote.amount)}`
+        );
+      doc.font("Helvetica").fontSize(10);
+      doc.text(
+        `Original invoice total: ${amount(creditNote.invoice.totalAmount)}`
+      );
+
+      if (org?.invoiceFooter) {
+        doc
+          .fontSize(8)
+          .fillColor("#6B7280")
+          .text(org.invoiceFooter, 50, doc.page.height - 80, {
+            width: 500,
+            align: "center",
+          });
+      }
+
+      doc.end();
     } catch (err) {
-      console.error("Error marking invoice as paid", err);
-      res.status(500).json({ error: "Failed to mark invoice as paid" });
+      console.error("Error generating credit note PDF:", err);
+      res.status(500).json({ error: "Failed to generate credit note PDF" });
     }
   }
 );
 
 /**
  * PATCH /api/invoices/:id
- * Update invoice status (admin only)
+ * Update invoice status (admin only).
+ * Body: { status, reason? } – must be an allowed lifecycle transition.
  */
 router.patch("/:id", requireAdmin, async (req: AuthRequest, res) => {
   try {
@@ -893,30 +1662,332 @@ router.patch("/:id", requireAdmin, async (req: AuthRequest, res) => {
     }
 
     const { id } = req.params;
-    const { status } = req.body as { status?: string };
+    const { status, reason } = req.body as {
+      status?: string;
+      reason?: string;
+    };
 
     if (!status) {
       return res.status(400).json({ error: "Status is required" });
     }
 
-    if (!["draft", "sent", "paid", "overdue"].includes(status)) {
+    if (!isInvoiceStatus(status)) {
       return res.status(400).json({ error: "Invalid status value" });
     }
 
-    const updated = await prisma.invoice.update({
-      where: {
-        id,
-      },
-      data: {
-        status,
-      },
+    if (status === "void") {
+      return res
+        .status(400)
+        .json({ error: "Use POST /api/invoices/:id/void to void an invoice." });
+    }
+
+    let updated = await prisma.$transaction(async (tx) => {
+      const changed = await transitionInvoice(tx, {
+        orgId: req.user!.orgId,
+        invoiceId: id,
+        to: status,
+        changedById: req.user!.userId,
+        reason: typeof reason === "string" ? reason : null,
+      });
+      if (status !== "sent") return changed;
+
+      // Same as approve: apply client credit to the issued invoice
+      const creditApplied = await applyClientCredit(tx, {
+        orgId: req.user!.orgId,
+        clientId: changed.clientId,
+        changedById: req.user!.userId,
+      });
+      if (creditApplied.isZero()) return changed;
+
+      return tx.invoice.findUniqueOrThrow({ where: { id: changed.id } });
     });
 
+    // Newly issued (or never stored): keep the PDF as approve does
+    if (storedPdfOutdated(updated)) {
+      try {
+        const stored = await storeInvoicePdf(req.user.orgId, updated.id);
+        if (stored) updated = stored.invoice;
+      } catch (err) {
+        console.error(`Error storing PDF for invoice ${updated.id}:`, err);
+      }
+    }
+
     return res.json(updated);
   } catch (err) {
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
     console.error("Error updating invoice", err);
     return res.status(500).json({ error: "Failed to update invoice" });
   }
 });
 
+/**
+ * GET /api/invoices/:id/status-history
+ * Every lifecycle transition, oldest first, with who made it.
+ */
+router.get("/:id/status-history", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, orgId: req.user.orgId },
+      include: { client: { select: { primaryCMId: true } } },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      invoice.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this invoice." });
+    }
+
+    const changes = await prisma.invoiceStatusChange.findMany({
+      where: { invoiceId: invoice.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const userIds = Array.from(
+      new Set(changes.map((c) => c.changedById).filter(Boolean))
+    ) as string[];
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true },
+    });
+    const nameById = new Map(users.map((u) => [u.id, u.name]));
+
+    return res.json(
+      changes.map((c) => ({
+        id: c.id,
+        fromStatus: c.fromStatus,
+        toStatus: c.toStatus,
+        reason: c.reason,
+        changedById: c.changedById,
+        changedByName: c.changedById
+          ? nameById.get(c.changedById) ?? null
+          : "System",
+        createdAt: c.createdAt,
+      }))
+    );
+  } catch (err) {
+    console.error("Error fetching invoice status history:", err);
+    return res
+      .status(500)
+      .json({ error: "Failed to fetch invoice status history" });
+  }
+});
+
+/**
+ * GET /api/invoices/:id/reminders
+ * Payment reminders sent for the invoice, oldest first, with the email
+ * delivery (and its bounce status) for each.
+ */
+router.get("/:id/reminders", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, orgId: req.user.orgId },
+      include: {
+        client: {
+          select: {
+            primaryCMId: true,
+            remindersPausedAt: true,
+            remindersPausedReason: true,
+          },
+        },
+      },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      invoice.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this invoice." });
+    }
+
+    const reminders = await prisma.invoiceReminder.findMany({
+      where: { invoiceId: invoice.id },
+      orderBy: { scheduledFor: "asc" },
+      include: {
+        delivery: {
+          select: { id: true, recipient: true, status: true, bouncedAt: true },
+        },
+      },
+    });
+
+    return res.json({
+      remindersPausedAt: invoice.client.remindersPausedAt,
+      remindersPausedReason: invoice.client.remindersPausedReason,
+      reminders,
+    });
+  } catch (err) {
+    console.error("Error fetching invoice reminders:", err);
+    return res.status(500).json({ error: "Failed to fetch invoice reminders" });
+  }
+});
+
+const sendInvoiceSchema = z.object({
+  // Defaults to the client's billing contact email
+  to: z.string().email().optional(),
+});
+
+const deliveryBounceSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+/**
+ * GET /api/invoices/:id/deliveries
+ * Every email attempt for the invoice (approval, resends), newest first,
+ * with status sent | failed | skipped | bounced.
+ */
+router.get("/:id/deliveries", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, orgId: req.user.orgId },
+      include: { client: { select: { primaryCMId: true } } },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    if (
+      req.user.role === "care_manager" &&
+      invoice.client.primaryCMId !== req.user.userId
+    ) {
+      return res
+        .status(403)
+        .json({ error: "You are not allowed to view this invoice." });
+    }
+
+    const deliveries = await prisma.invoiceDelivery.findMany({
+      where: { invoiceId: invoice.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json(deliveries);
+  } catch (err) {
+    console.error("Error fetching invoice deliveries:", err);
+    return res
+      .status(500)
+      .json({ error: "Failed to fetch invoice deliveries" });
+  }
+});
+
+/**
+ * POST /api/invoices/:id/send
+ * Body: { to? }
+ * ADMIN ONLY – (re)send the invoice email. Returns the delivery record;
+ * check its status, since mail failures are recorded rather than thrown.
+ */
+router.post(
+  "/:id/send",
+  requireAdmin,
+  validate(sendInvoiceSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { to } = req.body as z.infer<typeof sendInvoiceSchema>;
+
+      const delivery = await sendInvoiceEmail({
+        orgId: req.user.orgId,
+        invoiceId: req.params.id as string,
+        trigger: "resend",
+        to,
+        sentById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "invoice",
+        entityId: delivery.invoiceId,
+        action: "send",
+        details: `Email to ${delivery.recipient ?? "(none)"}: ${
+          delivery.status
+        }`,
+      });
+
+      return res.status(201).json(delivery);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error sending invoice email:", err);
+      return res.status(500).json({ error: "Failed to send invoice email" });
+    }
+  }
+);
+
+/**
+ * POST /api/invoices/:id/deliveries/:deliveryId/bounce
+ * Body: { reason? }
+ * ADMIN ONLY – record a bounce reported outside the email webhook (e.g. a
+ * bounce message in the billing inbox).
+ */
+router.post(
+  "/:id/deliveries/:deliveryId/bounce",
+  requireAdmin,
+  validate(deliveryBounceSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { reason } = req.body as z.infer<typeof deliveryBounceSchema>;
+
+      const delivery = await recordDeliveryBounce({
+        orgId: req.user.orgId,
+        invoiceId: req.params.id as string,
+        deliveryId: req.params.deliveryId as string,
+        reason: reason ?? "Bounced",
+      });
+
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+
+      await logAudit(req, {
+        entityType: "invoice",
+        entityId: delivery.invoiceId,
+        action: "bounce",
+        details: `Email to ${delivery.recipient ?? "(none)"} bounced`,
+      });
+
+      return res.json(delivery);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error recording delivery bounce:", err);
+      return res.status(500).json({ error: "Failed to record bounce" });
+    }
+  }
+);
+
 export default router;
@@ -5,6 +5,12 @@ import { z } from "zod";
 import { AuthRequest } from "../middleware/auth";
 import { requireAdmin } from "../middleware/requireAdmin";
 import { validate } from "../middleware/validate";
+import { formatZodIssues } from "../middleware/errorHandler";
+import {
+  normalizeStoredOrgRules,
+  orgBillingRulesSchema,
+} from "../services/billingRules";
+import { DEFAULT_LOCALE, isLocale } from "../services/currency";
 
 
 
@@ -26,6 +32,23 @@ const updateOrgSettingsSchema = z.object({
   invoiceFooterText: z.string().max(1000).optional(),
   brandColor: z.string().max(32).optional(),
   logoUrl: z.string().url().optional(),
+  // Payment reminders, days relative to the due date (see billingRules)
+  reminderScheduleDays: z.array(z.number().int()).max(10).optional(),
+  // Invoice PDF template
+  invoiceLayout: z.enum(["summary", "itemized"]).optional(),
+  remittanceInstructions: z.string().max(1000).optional(),
+  showTaxIdOnDocuments: z.boolean().optional(),
+  paymentQrCode: z.boolean().optional(),
+  // Number formatting in documents and exports, e.g. "de-DE"
+  locale: z
+    .string()
+    .max(35)
+    .refine(isLocale, "Must be a supported locale, e.g. en-US")
+    .optional(),
+
+  // Billing provider identifiers for insurance claims
+  npi: z.string().max(20).nullable().optional(),
+  taxId: z.string().max(20).nullable().optional(),
 });
 
 
@@ -44,6 +67,8 @@ router.get("/settings", async (req: AuthRequest, res) => {
         name: true,
         contactEmail: true,
         billingRulesJson: true,
+        npi: true,
+        taxId: true,
       },
     });
 
@@ -83,7 +108,19 @@ router.get("/settings", async (req: AuthRequest, res) => {
       brandColor:
         typeof rules.brandColor === "string" ? rules.brandColor : "",
       logoUrl: typeof rules.logoUrl === "string" ? rules.logoUrl : "",
-    
+      reminderScheduleDays: normalizeStoredOrgRules(rules)
+        .reminderScheduleDays ?? [],
+      invoiceLayout:
+        rules.invoiceLayout === "summary" ? "summary" : "itemized",
+      remittanceInstructions:
+        typeof rules.remittanceInstructions === "string"
+          ? rules.remittanceInstructions
+          : "",
+      showTaxIdOnDocuments: rules.showTaxIdOnDocuments === true,
+      paymentQrCode: rules.paymentQrCode === true,
+      locale: normalizeStoredOrgRules(rules).locale ?? DEFAULT_LOCALE,
+      npi: org.npi,
+      taxId: org.taxId,
     });
   } catch (err) {
     console.error("Error fetching org settings:", err);
@@ -116,6 +153,14 @@ router.put(
   invoiceFooterText,
   brandColor,
   logoUrl,
+  reminderScheduleDays,
+  invoiceLayout,
+  remittanceInstructions,
+  showTaxIdOnDocuments,
+  paymentQrCode,
+  locale,
+  npi,
+  taxId,
 } = req.body as {
   name: string;
   contactEmail: string;
@@ -129,6 +174,14 @@ router.put(
   invoiceFooterText?: string;
   brandColor?: string;
   logoUrl?: string;
+  reminderScheduleDays?: number[];
+  invoiceLayout?: "summary" | "itemized";
+  remittanceInstructions?: string;
+  showTaxIdOnDocuments?: boolean;
+  paymentQrCode?: boolean;
+  locale?: string;
+  npi?: string | null;
+  taxId?: string | null;
 };
 
 
@@ -144,7 +197,7 @@ router.put(
         return res.status(404).json({ error: "Organization not found" });
       }
 
-      const currentRules = (org.billingRulesJson as any) || {};
+      const currentRules = normalizeStoredOrgRules(org.billingRulesJson);
 
       const updatedRules = {
         ...currentRules,
@@ -168,19 +221,48 @@ router.put(
           : {}),
         ...(typeof brandColor === "string" ? { brandColor } : {}),
         ...(typeof logoUrl === "string" ? { logoUrl } : {}),
+        // Stored in send order without repeats
+        ...(reminderScheduleDays
+          ? {
+              reminderScheduleDays: [...new Set(reminderScheduleDays)].sort(
+                (a, b) => a - b
+              ),
+            }
+          : {}),
+        ...(invoiceLayout ? { invoiceLayout } : {}),
+        ...(typeof remittanceInstructions === "string"
+          ? { remittanceInstructions }
+          : {}),
+        ...(typeof showTaxIdOnDocuments === "boolean"
+          ? { showTaxIdOnDocuments }
+          : {}),
+        ...(typeof paymentQrCode === "boolean" ? { paymentQrCode } : {}),
+        ...(locale ? { locale } : {}),
       };
 
+      const parsedRules = orgBillingRulesSchema.safeParse(updatedRules);
+      if (!parsedRules.success) {
+        return res.status(400).json({
+          error: "Invalid billing rules",
+          details: formatZodIssues(parsedRules.error),
+        });
+      }
+
       const updated = await prisma.organization.update({
         where: { id: org.id },
         data: {
           name,
           contactEmail,
-          billingRulesJson: updatedRules,
+          billingRulesJson: parsedRules.data,
+          ...(npi !== undefined ? { npi: npi?.trim() || null } : {}),
+          ...(taxId !== undefined ? { taxId: taxId?.trim() || null } : {}),
         },
         select: {
           name: true,
           contactEmail: true,
           billingRulesJson: true,
+          npi: true,
+          taxId: true,
         },
       });
 
@@ -189,6 +271,8 @@ router.put(
         name: updated.name,
         contactEmail: updated.contactEmail,
         billingRulesJson: updated.billingRulesJson,
+        npi: updated.npi,
+        taxId: updated.taxId,
       });
     } catch (err) {
       console.error("Error updating org settings:", err);
@@ -1,25 +1,92 @@
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
 import { AuthRequest } from "../middleware/auth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { validate } from "../middleware/validate";
+import { AppError } from "../middleware/errorHandler";
+import {
+  changePaymentStatus,
+  isPaymentStatus,
+  refundPayment,
+  PaymentStatus,
+  PAYMENT_STATUSES,
+} from "../services/payments";
 
 const router = Router();
 const prisma = new PrismaClient();
 
+/**
+ * Helper: write an AuditLog entry for payment changes.
+ */
+async function logAudit(
+  req: AuthRequest,
+  params: {
+    entityType: string;
+    entityId?: string;
+    action: string;
+    details?: string;
+  }
+) {
+  if (!req.user) return;
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        orgId: req.user.orgId,
+        userId: req.user.userId,
+        entityType: params.entityType,
+        entityId: params.entityId ?? null,
+        action: params.action,
+        details: params.details ?? null,
+      },
+    });
+  } catch (err) {
+    // Never let audit logging crash the main request
+    console.error("Error writing payment audit log:", err);
+  }
+}
+
+const refundPaymentSchema = z.object({
+  // Defaults to the full amount not yet refunded
+  amount: z.number().positive("Refund amount must be > 0").optional(),
+  reason: z.string().max(500).optional(),
+  reference: z.string().max(255).optional(),
+});
+
+const paymentReasonSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
 /**
  * GET /api/payments
- * Optional query: clientId, invoiceId
+ * Optional query: clientId, invoiceId, billingPartyId, status, kind
+ * (payment | refund). Refunds are rows with a negative amount and
+ * refundOfId pointing at the original payment.
  */
 router.get("/", async (req: AuthRequest, res) => {
   try {
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-    const { clientId, invoiceId } = req.query;
+    const { clientId, invoiceId, billingPartyId, status, kind } = req.query;
 
     const where: any = {
       orgId: req.user.orgId,
     };
 
     if (invoiceId) where.invoiceId = invoiceId;
+    if (billingPartyId) where.billingPartyId = billingPartyId;
+    if (status !== undefined) {
+      if (!isPaymentStatus(status)) {
+        return res.status(400).json({
+          error: `Invalid status. Must be one of: ${PAYMENT_STATUSES.join(
+            ", "
+          )}`,
+        });
+      }
+      where.status = status;
+    }
+    if (kind === "payment" || kind === "refund") where.kind = kind;
 
     const payments = await prisma.payment.findMany({
       where,
@@ -28,6 +95,10 @@ router.get("/", async (req: AuthRequest, res) => {
       },
       include: {
         invoice: true,
+        billingParty: { select: { id: true, name: true } },
+        refunds: {
+          select: { id: true, amount: true, status: true, paidAt: true },
+        },
       },
     });
 
@@ -44,4 +115,222 @@ router.get("/", async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * GET /api/payments/ledger
+ * Optional query: clientId, invoiceId
+ * AR view: payments and credit notes in one list, newest first.
+ * Each entry: { type: "payment" | "credit_note", id, invoiceId, clientId,
+ *   clientName, amount, currency, date, status, method?, reference?,
+ *   billingPartyName?, kind?, refundOfId?, reason? }
+ * Refunds are payment entries with kind "refund" and a negative amount.
+ * Care managers only see entries for their own clients.
+ */
+router.get("/ledger", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { clientId, invoiceId } = req.query;
+
+    const invoiceWhere: any = {};
+    if (typeof clientId === "string" && clientId) {
+      invoiceWhere.clientId = clientId;
+    }
+    if (req.user.role === "care_manager") {
+      invoiceWhere.client = { primaryCMId: req.user.userId };
+    }
+
+    const where: any = {
+      orgId: req.user.orgId,
+      invoice: invoiceWhere,
+    };
+    if (typeof invoiceId === "string" && invoiceId) {
+      where.invoiceId = invoiceId;
+    }
+
+    const [payments, creditNotes] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        include: {
+          invoice: { include: { client: true } },
+          billingParty: { select: { name: true } },
+        },
+      }),
+      prisma.creditNote.findMany({
+        where,
+        include: { invoice: { include: { client: true } } },
+      }),
+    ]);
+
+    const entries = [
+      ...payments.map((p) => ({
+        type: "payment" as const,
+        id: p.id,
+        invoiceId: p.invoiceId,
+        clientId: p.invoice.clientId,
+        clientName: p.invoice.client.name,
+        amount: p.amount,
+        currency: p.invoice.currency,
+        date: p.paidAt,
+        status: p.status,
+        method: p.method,
+        reference: p.reference,
+        billingPartyName: p.billingParty?.name ?? null,
+        kind: p.kind,
+        refundOfId: p.refundOfId,
+        reason: p.reason,
+      })),
+      ...creditNotes.map((c) => ({
+        type: "credit_note" as const,
+        id: c.id,
+        invoiceId: c.invoiceId,
+        clientId: c.clientId,
+        clientName: c.invoice.client.name,
+        amount: c.amount,
+        currency: c.currency,
+        date: c.issuedAt,
+        status: c.status,
+        reason: c.reason,
+      })),
+    ].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+    res.json(entries);
+  } catch (err) {
+    console.error("Error fetching AR ledger:", err);
+    res.status(500).json({ error: "Failed to fetch AR ledger" });
+  }
+});
+
+/**
+ * Helper: shared handler for the payment status endpoints.
+ */
+function paymentStatusRoute(to: PaymentStatus, action: string) {
+  return async (req: AuthRequest, res: any) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { reason } = req.body as z.infer<typeof paymentReasonSchema>;
+
+      const result = await changePaymentStatus({
+        orgId: req.user.orgId,
+        paymentId: req.params.id as string,
+        status: to,
+        reason,
+        changedById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "payment",
+        entityId: result.payment.id,
+        action,
+        details: `Payment ${result.payment.id} ${to} on invoice ${
+          result.invoice.id
+        }${reason ? `: ${reason}` : ""}`,
+      });
+
+      res.json(result);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error(`Error updating payment (${action}):`, err);
+      res.status(500).json({ error: "Failed to update payment" });
+    }
+  };
+}
+
+/**
+ * POST /api/payments/:id/confirm
+ * Pending payment cleared → completed. Anything over the invoice balance
+ * becomes client credit (clientPayment, unappliedCredit in the response).
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/confirm",
+  requireAdmin,
+  validate(paymentReasonSchema),
+  paymentStatusRoute("completed", "confirm")
+);
+
+/**
+ * POST /api/payments/:id/fail
+ * Body: { reason? }
+ * Pending payment didn't go through → failed.
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/fail",
+  requireAdmin,
+  validate(paymentReasonSchema),
+  paymentStatusRoute("failed", "fail")
+);
+
+/**
+ * POST /api/payments/:id/reverse
+ * Body: { reason? }
+ * Completed payment taken back (bounced check, chargeback) → reversed.
+ * A paid invoice reopens as sent/overdue. Allocations of a client payment
+ * get 409 PAYMENT_IS_ALLOCATION (use POST /api/client-payments/:id/reverse).
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/reverse",
+  requireAdmin,
+  validate(paymentReasonSchema),
+  paymentStatusRoute("reversed", "reverse")
+);
+
+/**
+ * POST /api/payments/:id/refund
+ * Body: { amount?, reason?, reference? }
+ * Refunds all (default) or part of a completed payment. Returns the
+ * refund row, the invoice and its balance.
+ * ADMIN ONLY
+ */
+router.post(
+  "/:id/refund",
+  requireAdmin,
+  validate(refundPaymentSchema),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { amount, reason, reference } = req.body as z.infer<
+        typeof refundPaymentSchema
+      >;
+
+      const result = await refundPayment({
+        orgId: req.user.orgId,
+        paymentId: req.params.id as string,
+        amount,
+        reason,
+        reference,
+        changedById: req.user.userId,
+      });
+
+      await logAudit(req, {
+        entityType: "payment",
+        entityId: result.refund.id,
+        action: "refund",
+        details: `Refunded ${result.refund.amount
+          .abs()
+          .toFixed(2)} of payment ${req.params.id} on invoice ${
+          result.invoice.id
+        }`,
+      });
+
+      res.status(201).json(result);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error refunding payment:", err);
+      res.status(500).json({ error: "Failed to refund payment" });
+    }
+  }
+);
+
 export default router;
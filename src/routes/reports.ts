@@ -1,14 +1,117 @@
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { AuthRequest } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { arAgingToCsv, buildArAgingReport } from "../services/arAging";
+import { normalizeStoredOrgRules } from "../services/billingRules";
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const REPORT_TYPES = [
+  {
+    type: "monthly_summary",
+    label: "Monthly summary",
+    description: "Activity and billing summary for a period.",
+  },
+  {
+    type: "client_summary",
+    label: "Client summary",
+    description: "Per-client activity and billing for a period.",
+  },
+  {
+    type: "audit_log",
+    label: "Audit log",
+    description: "Audit trail entries for a period.",
+  },
+  {
+    type: "ar_aging",
+    label: "Accounts receivable aging",
+    description:
+      "Open balances per client by days past due (current to 90+).",
+    formats: ["json", "csv"],
+  },
+] as const;
+
+function isReportType(value: unknown): boolean {
+  return REPORT_TYPES.some((t) => t.type === value);
+}
+
+/**
+ * Helper: care managers only ever see their own clients' receivables.
+ */
+function scopedCMId(req: AuthRequest, requested: unknown): string | null {
+  if (req.user?.role === "care_manager") return req.user.userId;
+  return typeof requested === "string" && requested ? requested : null;
+}
+
+/**
+ * GET /api/reports/types
+ * Report types this API can generate.
+ */
+router.get("/types", async (req: AuthRequest, res) => {
+  if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+  res.json(REPORT_TYPES);
+});
+
+/**
+ * GET /api/reports/ar-aging
+ * Accounts receivable aging, per client and org-wide.
+ * Query:
+ *  - asOf?: date (default now)
+ *  - primaryCMId?: only clients of this care manager (forced for CMs)
+ *  - format?: "json" (default) | "csv"
+ */
+router.get("/ar-aging", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { asOf, primaryCMId, format } = req.query;
+
+    const report = await buildArAgingReport({
+      orgId: req.user.orgId,
+      asOf: typeof asOf === "string" && asOf ? new Date(asOf) : new Date(),
+      primaryCMId: scopedCMId(req, primaryCMId),
+    });
+
+    if (format !== "csv") {
+      return res.json(report);
+    }
+
+    const fileName = `elderflow_ar_aging_${report.asOf
+      .toISOString()
+      .slice(0, 10)}.csv`;
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileName}"`
+    );
+    const org = await prisma.organization.findUnique({
+      where: { id: req.user.orgId },
+      select: { billingRulesJson: true },
+    });
+    const { locale } = normalizeStoredOrgRules(org?.billingRulesJson);
+
+    res.status(200).send(arAgingToCsv(report, locale));
+  } catch (err) {
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
+    console.error("Error building AR aging report:", err);
+    res.status(500).json({ error: "Failed to build AR aging report" });
+  }
+});
+
 /**
  * POST /api/reports/generate
  * Body: { type, periodStart, periodEnd }
- * Types can be: "monthly_summary", "client_summary", "audit_log" (for now we just store metadata).
+ * Types: see GET /api/reports/types. "ar_aging" is point-in-time: it takes
+ * { asOf?, primaryCMId? } instead of a period (periodEnd works as asOf),
+ * returns the report data and links to its CSV download. The other types
+ * only store metadata for now.
  */
 router.post("/generate", async (req: AuthRequest, res) => {
   try {
@@ -16,6 +119,41 @@ router.post("/generate", async (req: AuthRequest, res) => {
 
     const { type, periodStart, periodEnd } = req.body;
 
+    if (type && !isReportType(type)) {
+      return res.status(400).json({
+        error: `Unknown report type. Must be one of: ${REPORT_TYPES.map(
+          (t) => t.type
+        ).join(", ")}`,
+      });
+    }
+
+    if (type === "ar_aging") {
+      const asOfInput = req.body.asOf ?? periodEnd;
+      const data = await buildArAgingReport({
+        orgId: req.user.orgId,
+        asOf: asOfInput ? new Date(asOfInput) : new Date(),
+        primaryCMId: scopedCMId(req, req.body.primaryCMId),
+      });
+
+      const query = new URLSearchParams({
+        asOf: data.asOf.toISOString(),
+        format: "csv",
+        ...(data.primaryCMId ? { primaryCMId: data.primaryCMId } : {}),
+      });
+
+      const report = await prisma.report.create({
+        data: {
+          orgId: req.user.orgId,
+          type,
+          periodStart: data.asOf,
+          periodEnd: data.asOf,
+          fileUrl: `/api/reports/ar-aging?${query.toString()}`,
+        },
+      });
+
+      return res.status(201).json({ ...report, data });
+    }
+
     if (!type || !periodStart || !periodEnd) {
       return res
         .status(400)
@@ -38,6 +176,11 @@ router.post("/generate", async (req: AuthRequest, res) => {
 
     res.status(201).json(report);
   } catch (err) {
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
     console.error("Error generating report:", err);
     res.status(500).json({ error: "Failed to generate report" });
   }
@@ -1,28 +1,192 @@
 // src/routes/stripe.ts
 import { Router, Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { AuthRequest, authMiddleware } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { AppError } from "../middleware/errorHandler";
+import {
+  createInvoiceCheckoutSession,
+  getStripe,
+  isStripeEnabled,
+  verifyPaymentLinkToken,
+} from "../services/stripePayments";
+import {
+  processWebhookEvent,
+  recordWebhookEvent,
+} from "../services/webhookEvents";
 
-// 🔹 Placeholder webhook handler so /api/stripe/webhook doesn't break.
-// This does NOT validate real Stripe signatures or process real events.
-export function stripeWebhookHandler(req: Request, res: Response) {
-  console.log("Stripe webhook placeholder hit");
-  return res.status(200).send("ok");
+const prisma = new PrismaClient();
+
+const checkoutSessionSchema = z.object({
+  invoiceId: z.string().min(1, "invoiceId is required"),
+  successUrl: z.string().url().optional(),
+  cancelUrl: z.string().url().optional(),
+});
+
+/**
+ * POST /api/stripe/webhook
+ * Mounted in app.ts with express.raw() so the signature can be checked
+ * against the exact bytes Stripe sent. Verified events go through the
+ * webhook event log: redeliveries are acknowledged without being applied
+ * again. Answers 400 for a bad signature and 500 when processing fails,
+ * so Stripe retries the delivery.
+ */
+export async function stripeWebhookHandler(req: Request, res: Response) {
+  const stripe = getStripe();
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!stripe || !webhookSecret) {
+    return res.status(503).json({
+      error: "Stripe webhooks are not configured on this environment.",
+      code: "STRIPE_NOT_CONFIGURED",
+    });
+  }
+
+  const signature = req.headers["stripe-signature"];
+  if (typeof signature !== "string" || !Buffer.isBuffer(req.body)) {
+    return res.status(400).json({
+      error: "Missing Stripe signature or raw body.",
+      code: "INVALID_SIGNATURE",
+    });
+  }
+
+  let event;
+  try {
+    event = stripe.webhooks.constructEvent(req.body, signature, webhookSecret);
+  } catch (err) {
+    console.error("Stripe webhook signature verification failed:", err);
+    return res.status(400).json({
+      error: "Invalid Stripe signature.",
+      code: "INVALID_SIGNATURE",
+    });
+  }
+
+  try {
+    const stored = await recordWebhookEvent({
+      provider: "stripe",
+      providerEventId: event.id,
+      type: event.type,
+      payload: event,
+    });
+
+    const { event: processed, duplicate, permanentFailure } =
+      await processWebhookEvent(stored.id);
+
+    // Let Stripe retry failures unless retrying can't help; the event
+    // stays "failed" in the log for an admin to inspect or replay
+    if (processed.status === "failed" && !permanentFailure) {
+      return res.status(500).json({ error: "Failed to process Stripe event" });
+    }
+
+    return res.json({
+      received: true,
+      duplicate,
+      status: processed.status,
+    });
+  } catch (err) {
+    console.error(`Error storing Stripe event ${event.id}:`, err);
+    return res.status(500).json({ error: "Failed to process Stripe event" });
+  }
 }
 
-// 🔹 Basic router stub for /api/stripe routes.
-// All endpoints just say "Stripe not configured" for now.
 const router = Router();
 
+/**
+ * GET /api/stripe/config
+ * Public: whether online card payments are available.
+ */
 router.get("/config", (_req: Request, res: Response) => {
+  const enabled = isStripeEnabled();
+
   return res.json({
-    stripeEnabled: false,
-    message: "Stripe is not configured on this environment.",
+    stripeEnabled: enabled,
+    publishableKey: enabled ? process.env.STRIPE_PUBLISHABLE_KEY ?? null : null,
+    message: enabled
+      ? undefined
+      : "Stripe is not configured on this environment.",
   });
 });
 
-router.post("/checkout-session", (_req: Request, res: Response) => {
-  return res.status(501).json({
-    error: "Stripe checkout is not enabled yet.",
-  });
+/**
+ * GET /api/stripe/pay/:token
+ * Public: the payment link from invoice emails. Creates a Checkout Session
+ * for the current balance and redirects to it.
+ */
+router.get("/pay/:token", async (req: Request, res: Response) => {
+  try {
+    const { orgId, invoiceId } = verifyPaymentLinkToken(
+      req.params.token as string
+    );
+
+    const session = await createInvoiceCheckoutSession({ orgId, invoiceId });
+    if (!session.url) {
+      return res
+        .status(502)
+        .json({ error: "Stripe did not return a checkout URL" });
+    }
+
+    return res.redirect(303, session.url);
+  } catch (err) {
+    if (err instanceof AppError) {
+      return res
+        .status(err.statusCode)
+        .json({ error: err.message, code: err.code });
+    }
+    console.error("Error opening payment link:", err);
+    return res.status(500).json({ error: "Failed to open payment link" });
+  }
 });
 
+/**
+ * POST /api/stripe/checkout-session
+ * Body: { invoiceId, successUrl?, cancelUrl? }
+ * Creates a Stripe Checkout Session for the invoice's outstanding balance
+ * and returns { id, url, amount }. Care managers only for their clients.
+ */
+router.post(
+  "/checkout-session",
+  authMiddleware,
+  validate(checkoutSessionSchema),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const { invoiceId, successUrl, cancelUrl } =
+        req.body as z.infer<typeof checkoutSessionSchema>;
+
+      if (req.user.role === "care_manager") {
+        const invoice = await prisma.invoice.findFirst({
+          where: { id: invoiceId, orgId: req.user.orgId },
+          select: { client: { select: { primaryCMId: true } } },
+        });
+        if (invoice && invoice.client.primaryCMId !== req.user.userId) {
+          return res
+            .status(403)
+            .json({ error: "You are not allowed to access this invoice." });
+        }
+      }
+
+      const session = await createInvoiceCheckoutSession({
+        orgId: req.user.orgId,
+        invoiceId,
+        successUrl,
+        cancelUrl,
+      });
+
+      return res.status(201).json(session);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error creating Stripe checkout session:", err);
+      return res
+        .status(500)
+        .json({ error: "Failed to create checkout session" });
+    }
+  }
+);
+
 export default router;
@@ -232,7 +232,7 @@ router.post("/", async (req: AuthRequest, res: Response) => {
 /**
  * PATCH /api/users/:id
  * Admin-only – update care manager details (name, email, role, profile fields).
- * Body: { name?, email?, role?, profileImageUrl?, title?, phone? }
+ * Body: { name?, email?, role?, profileImageUrl?, title?, phone?, npi? }
  */
 router.patch(
   "/:id",
@@ -249,6 +249,7 @@ router.patch(
         profileImageUrl,
         title,
         phone,
+        npi,
       } = req.body as {
         name?: string;
         email?: string;
@@ -256,6 +257,7 @@ router.patch(
         profileImageUrl?: string;
         title?: string;
         phone?: string;
+        npi?: string;
       };
 
       const user = await prisma.user.findUnique({
@@ -279,6 +281,7 @@ router.patch(
         data.profileImageUrl = profileImageUrl.trim() || null;
       if (title !== undefined) data.title = title.trim() || null;
       if (phone !== undefined) data.phone = phone.trim() || null;
+      if (npi !== undefined) data.npi = npi.trim() || null;
 
       try {
         const updated = await prisma.user.update({
@@ -294,6 +297,7 @@ router.patch(
           profileImageUrl: updated.profileImageUrl,
           title: updated.title,
           phone: updated.phone,
+          npi: updated.npi,
         });
       } catch (err: any) {
         if (err.code === "P2002") {
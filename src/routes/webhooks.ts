@@ -0,0 +1,228 @@
+import crypto from "crypto";
+import { Request, Response, Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { AuthRequest } from "../middleware/auth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { AppError } from "../middleware/errorHandler";
+import { deliveryOrgId } from "../services/invoiceDelivery";
+import {
+  isWebhookEventStatus,
+  processWebhookEvent,
+  recordWebhookEvent,
+  replayWebhookEvent,
+  WEBHOOK_EVENT_STATUSES,
+} from "../services/webhookEvents";
+
+export const emailWebhookSchema = z.object({
+  // Provider event id; defaults to type + messageId
+  id: z.string().min(1).optional(),
+  type: z.string().min(1),
+  messageId: z.string().min(1),
+  reason: z.string().max(1000).optional(),
+  occurredAt: z.string().optional(),
+});
+
+/**
+ * Helper: constant-time check of the shared webhook secret.
+ */
+function secretMatches(given: unknown, expected: string): boolean {
+  if (typeof given !== "string") return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * POST /api/email/webhook
+ * Mounted in app.ts without auth. Mail providers (or a relay parsing
+ * bounce messages) report events as { id?, type, messageId, reason?,
+ * occurredAt? } with the X-Webhook-Secret header set to
+ * EMAIL_WEBHOOK_SECRET. Events go through the webhook event log; a
+ * "bounce" marks the matching invoice delivery as bounced.
+ */
+export async function emailWebhookHandler(req: Request, res: Response) {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET;
+
+  if (!secret) {
+    return res.status(503).json({
+      error: "Email webhooks are not configured on this environment.",
+      code: "EMAIL_WEBHOOK_NOT_CONFIGURED",
+    });
+  }
+
+  if (!secretMatches(req.headers["x-webhook-secret"], secret)) {
+    return res
+      .status(401)
+      .json({ error: "Invalid webhook secret.", code: "INVALID_SIGNATURE" });
+  }
+
+  try {
+    const body = req.body as z.infer<typeof emailWebhookSchema>;
+
+    const stored = await recordWebhookEvent({
+      provider: "email",
+      providerEventId: body.id ?? `${body.type}:${body.messageId}`,
+      type: body.type,
+      payload: body,
+      orgId: await deliveryOrgId(body.messageId),
+    });
+
+    const { event, duplicate, permanentFailure } = await processWebhookEvent(
+      stored.id
+    );
+
+    // Same as Stripe: let the provider retry unless retrying can't help
+    if (event.status === "failed" && !permanentFailure) {
+      return res.status(500).json({ error: "Failed to process email event" });
+    }
+
+    return res.json({ received: true, duplicate, status: event.status });
+  } catch (err) {
+    console.error("Error processing email webhook:", err);
+    return res.status(500).json({ error: "Failed to process email event" });
+  }
+}
+
+const router = Router();
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/webhooks/events
+ * ADMIN ONLY – inbound provider events for this org, newest first
+ * (payloads omitted; fetch one event for the full payload).
+ * Query:
+ *  - status?: received | processing | processed | ignored | failed
+ *  - provider?: e.g. "stripe"
+ *  - type?: provider event type, e.g. "checkout.session.completed"
+ *  - limit?: number (default 100, max 500)
+ */
+router.get("/events", requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { status, provider, type, limit } = req.query;
+
+    const where: any = { orgId: req.user.orgId };
+
+    if (status !== undefined) {
+      if (!isWebhookEventStatus(status)) {
+        return res.status(400).json({
+          error: `Invalid status. Must be one of: ${WEBHOOK_EVENT_STATUSES.join(
+            ", "
+          )}`,
+        });
+      }
+      where.status = status;
+    }
+    if (typeof provider === "string" && provider) where.provider = provider;
+    if (typeof type === "string" && type) where.type = type;
+
+    let take = 100;
+    if (typeof limit === "string") {
+      const parsed = parseInt(limit, 10);
+      if (!Number.isNaN(parsed) && parsed > 0 && parsed <= 500) {
+        take = parsed;
+      }
+    }
+
+    const events = await prisma.webhookEvent.findMany({
+      where,
+      select: {
+        id: true,
+        provider: true,
+        providerEventId: true,
+        type: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        processedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take,
+    });
+
+    res.json(events);
+  } catch (err) {
+    console.error("Error fetching webhook events:", err);
+    res.status(500).json({ error: "Failed to fetch webhook events" });
+  }
+});
+
+/**
+ * GET /api/webhooks/events/:id
+ * ADMIN ONLY – one event with its stored payload and processing result.
+ */
+router.get("/events/:id", requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const event = await prisma.webhookEvent.findFirst({
+      where: { id: req.params.id, orgId: req.user.orgId },
+    });
+
+    if (!event) {
+      return res.status(404).json({ error: "Webhook event not found" });
+    }
+
+    res.json(event);
+  } catch (err) {
+    console.error("Error fetching webhook event:", err);
+    res.status(500).json({ error: "Failed to fetch webhook event" });
+  }
+});
+
+/**
+ * POST /api/webhooks/events/:id/replay
+ * ADMIN ONLY – re-run a failed event from its stored payload.
+ * Body: { force? } – also replays an event stuck in "processing"
+ * (e.g. after a crash mid-delivery).
+ */
+router.post(
+  "/events/:id/replay",
+  requireAdmin,
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+      const result = await replayWebhookEvent({
+        orgId: req.user.orgId,
+        eventId: req.params.id,
+        force: req.body?.force === true,
+      });
+
+      try {
+        await prisma.auditLog.create({
+          data: {
+            orgId: req.user.orgId,
+            userId: req.user.userId,
+            entityType: "webhook_event",
+            entityId: result.event.id,
+            action: "replay",
+            details: `Replayed ${result.event.provider} event ${result.event.providerEventId}: ${result.event.status}`,
+          },
+        });
+      } catch (err) {
+        // Never let audit logging crash the main request
+        console.error("Error writing webhook audit log:", err);
+      }
+
+      res.json({
+        ok: result.event.status !== "failed",
+        event: result.event,
+      });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, code: err.code });
+      }
+      console.error("Error replaying webhook event:", err);
+      res.status(500).json({ error: "Failed to replay webhook event" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,68 @@
+// src/services/aging.ts
+import { money, Money, MoneyInput, ZERO } from "./money";
+
+/**
+ * Receivables aging: open balances grouped by how far past due they are,
+ * counted in whole days from the invoice due date.
+ */
+
+export const AGING_BUCKETS = [
+  "current",
+  "days1to30",
+  "days31to60",
+  "days61to90",
+  "over90",
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  days1to30: "1–30 days",
+  days31to60: "31–60 days",
+  days61to90: "61–90 days",
+  over90: "90+ days",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function daysPastDue(dueDate: Date | null, asOf: Date): number {
+  if (!dueDate) return 0;
+  const elapsed = asOf.getTime() - dueDate.getTime();
+  return Math.max(0, Math.floor(elapsed / DAY_MS));
+}
+
+export function agingBucket(dueDate: Date | null, asOf: Date): AgingBucket {
+  const days = daysPastDue(dueDate, asOf);
+  if (days <= 0) return "current";
+  if (days <= 30) return "days1to30";
+  if (days <= 60) return "days31to60";
+  if (days <= 90) return "days61to90";
+  return "over90";
+}
+
+export type AgingTotals = Record<AgingBucket, Money> & { total: Money };
+
+export function emptyAging(): AgingTotals {
+  return {
+    current: ZERO,
+    days1to30: ZERO,
+    days31to60: ZERO,
+    days61to90: ZERO,
+    over90: ZERO,
+    total: ZERO,
+  };
+}
+
+/**
+ * Helper: add an open balance to its bucket (and the total), in place.
+ */
+export function addToAging(
+  totals: AgingTotals,
+  bucket: AgingBucket,
+  amount: MoneyInput
+): AgingTotals {
+  totals[bucket] = money(totals[bucket].plus(money(amount)));
+  totals.total = money(totals.total.plus(money(amount)));
+  return totals;
+}
@@ -0,0 +1,245 @@
+// src/services/arAging.ts
+import { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import {
+  addToAging,
+  agingBucket,
+  daysPastDue,
+  emptyAging,
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  AgingBucket,
+  AgingTotals,
+} from "./aging";
+import { csvDelimiter, formatAmount } from "./currency";
+import { loadRateConverter } from "./exchangeRates";
+import { displayInvoiceNumber } from "./invoiceNumbers";
+import { money, sumMoney, Money } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Accounts receivable aging as of a date.
+ *
+ * An invoice is receivable once issued (sentAt). Its open balance is the
+ * total less completed payments and issued credit notes dated on or
+ * before `asOf`, bucketed by days past its due date (sentAt when it has
+ * none). Fully settled invoices are left out.
+ *
+ * Buckets and totals are in the org's base currency: each balance is
+ * converted at its invoice's fixed rate, or the rate in force at `asOf`.
+ * Invoices in a currency with no rate stay listed (baseBalance null) but
+ * out of the sums, and the currency is named in missingExchangeRates.
+ */
+
+export interface ArAgingInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  status: string;
+  issuedAt: Date;
+  dueDate: Date | null;
+  currency: string;
+  totalAmount: Money;
+  balance: Money;
+  // balance in the report currency; null without an exchange rate
+  baseBalance: Money | null;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+export interface ArAgingClient {
+  clientId: string;
+  clientName: string;
+  primaryCMId: string | null;
+  primaryCMName: string | null;
+  aging: AgingTotals;
+  oldestDaysPastDue: number;
+  invoices: ArAgingInvoice[];
+}
+
+export interface ArAgingReport {
+  asOf: Date;
+  currency: string;
+  primaryCMId: string | null;
+  clients: ArAgingClient[];
+  totals: AgingTotals;
+  missingExchangeRates: string[];
+}
+
+export async function buildArAgingReport(params: {
+  orgId: string;
+  asOf: Date;
+  primaryCMId?: string | null;
+}): Promise<ArAgingReport> {
+  const { orgId, asOf } = params;
+
+  if (Number.isNaN(asOf.getTime())) {
+    throw new AppError("Invalid asOf date", 400, "INVALID_DATE");
+  }
+
+  const where: Prisma.InvoiceWhereInput = {
+    orgId,
+    sentAt: { not: null, lte: asOf },
+    // Point in time: an invoice voided after asOf was still owed then
+    OR: [{ voidedAt: null }, { voidedAt: { gt: asOf } }],
+  };
+  if (params.primaryCMId) {
+    where.client = { primaryCMId: params.primaryCMId };
+  }
+
+  const [invoices, converter] = await Promise.all([
+    prisma.invoice.findMany({
+      where,
+      include: {
+        client: {
+          select: {
+            id: true,
+            name: true,
+            primaryCMId: true,
+            primaryCM: { select: { name: true } },
+          },
+        },
+        payments: {
+          where: { status: "completed", paidAt: { lte: asOf } },
+          select: { amount: true },
+        },
+        creditNotes: {
+          where: { status: "issued", issuedAt: { lte: asOf } },
+          select: { amount: true },
+        },
+      },
+      orderBy: { sentAt: "asc" },
+    }),
+    loadRateConverter(orgId),
+  ]);
+
+  const byClient = new Map<string, ArAgingClient>();
+  const totals = emptyAging();
+  const missingExchangeRates = new Set<string>();
+
+  for (const invoice of invoices) {
+    const balance = money(invoice.totalAmount)
+      .minus(sumMoney(invoice.payments.map((p) => p.amount)))
+      .minus(sumMoney(invoice.creditNotes.map((c) => c.amount)));
+    if (balance.lte(0)) continue;
+
+    const issuedAt = invoice.sentAt!;
+    const dueDate = invoice.dueDate ?? issuedAt;
+    const bucket = agingBucket(dueDate, asOf);
+    const days = daysPastDue(dueDate, asOf);
+
+    let row = byClient.get(invoice.clientId);
+    if (!row) {
+      row = {
+        clientId: invoice.client.id,
+        clientName: invoice.client.name,
+        primaryCMId: invoice.client.primaryCMId,
+        primaryCMName: invoice.client.primaryCM?.name ?? null,
+        aging: emptyAging(),
+        oldestDaysPastDue: 0,
+        invoices: [],
+      };
+      byClient.set(invoice.clientId, row);
+    }
+
+    const baseBalance = converter.convert(balance, invoice.currency, {
+      on: asOf,
+      exchangeRate: invoice.exchangeRate,
+    });
+
+    row.invoices.push({
+      invoiceId: invoice.id,
+      invoiceNumber: displayInvoiceNumber(invoice),
+      status: invoice.status,
+      issuedAt,
+      dueDate: invoice.dueDate,
+      currency: invoice.currency,
+      totalAmount: money(invoice.totalAmount),
+      balance,
+      baseBalance,
+      daysPastDue: days,
+      bucket,
+    });
+    row.oldestDaysPastDue = Math.max(row.oldestDaysPastDue, days);
+    if (baseBalance) {
+      addToAging(row.aging, bucket, baseBalance);
+      addToAging(totals, bucket, baseBalance);
+    } else {
+      missingExchangeRates.add(invoice.currency);
+    }
+  }
+
+  // Largest balances first – that's where collection effort goes
+  const clients = [...byClient.values()].sort(
+    (a, b) =>
+      b.aging.total.comparedTo(a.aging.total) ||
+      a.clientName.localeCompare(b.clientName)
+  );
+
+  return {
+    asOf,
+    currency: converter.baseCurrency,
+    primaryCMId: params.primaryCMId ?? null,
+    clients,
+    totals,
+    missingExchangeRates: [...missingExchangeRates].sort(),
+  };
+}
+
+function csvCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * One row per client plus an org-wide total row. Numbers follow `locale`
+ * (";"-separated where "," is the decimal mark).
+ */
+export function arAgingToCsv(
+  report: ArAgingReport,
+  locale?: string | null
+): string {
+  const delimiter = csvDelimiter(locale);
+  const amount = (value: Money) =>
+    formatAmount(value, report.currency, locale);
+
+  const header = [
+    "Client ID",
+    "Client Name",
+    "Care Manager",
+    ...AGING_BUCKETS.map((b) => AGING_BUCKET_LABELS[b]),
+    "Total Outstanding",
+    "Oldest Days Past Due",
+    "Open Invoices",
+    "Currency",
+  ];
+
+  const rows = report.clients.map((c) => [
+    c.clientId,
+    c.clientName,
+    c.primaryCMName ?? "",
+    ...AGING_BUCKETS.map((b) => amount(c.aging[b])),
+    amount(c.aging.total),
+    String(c.oldestDaysPastDue),
+    String(c.invoices.length),
+    report.currency,
+  ]);
+
+  const totalRow = [
+    "",
+    "TOTAL",
+    "",
+    ...AGING_BUCKETS.map((b) => amount(report.totals[b])),
+    amount(report.totals.total),
+    "",
+    String(report.clients.reduce((n, c) => n + c.invoices.length, 0)),
+    report.currency,
+  ];
+
+  return [header, ...rows, totalRow]
+    .map((cols) =>
+      cols.map((c) => csvCell(c, delimiter)).join(delimiter)
+    )
+    .join("\n");
+}
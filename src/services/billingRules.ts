@@ -0,0 +1,465 @@
+// src/services/billingRules.ts
+import { z } from "zod";
+import { isLocale } from "./currency";
+import { decimal, money, Money, MoneyInput } from "./money";
+
+/**
+ * Billing rules engine.
+ *
+ * Rule documents live in `Organization.billingRulesJson` and
+ * `Client.billingRulesJson`. Both use the same versioned schema; the org
+ * document additionally carries a few invoice settings (payment terms, etc.).
+ *
+ * Precedence (highest first):
+ *   1. ServiceType  – rateType/rateAmount on the activity's service type
+ *   2. Client       – client.billingRulesJson
+ *   3. Org          – organization.billingRulesJson
+ *   4. Default      – built-in fallbacks below
+ */
+
+export const BILLING_RULES_VERSION = 1;
+
+export const RULE_PRECEDENCE = ["service_type", "client", "org"] as const;
+
+export type RuleSource = (typeof RULE_PRECEDENCE)[number] | "default";
+
+export const ACTIVITY_SOURCES = [
+  "phone",
+  "email",
+  "visit",
+  "calendar",
+  "manual",
+] as const;
+
+export type Rounding = "none" | "6m" | "15m";
+export type RoundingMode = "nearest" | "up" | "down";
+
+const DEFAULT_HOURLY_RATE = 150;
+
+const rate = z.number().nonnegative("Must be >= 0");
+
+export const billingRulesSchema = z
+  .object({
+    version: z.literal(BILLING_RULES_VERSION).default(BILLING_RULES_VERSION),
+    hourlyRate: rate.optional(),
+    // Per-activity-source hourly rates, e.g. { phone: 120, visit: 175 }
+    sourceRates: z
+      .object({
+        phone: rate.optional(),
+        email: rate.optional(),
+        visit: rate.optional(),
+        calendar: rate.optional(),
+        manual: rate.optional(),
+      })
+      .strict()
+      .optional(),
+    // Flat fee added once per activity with source "visit"
+    visitFee: rate.optional(),
+    // Per-mile rate used for mileage line items
+    mileageRate: rate.optional(),
+    // Minimum billable minutes per activity
+    minDuration: z.number().int().nonnegative("Must be >= 0").optional(),
+    // Minimum amount charged per billable activity
+    minimumCharge: rate.optional(),
+    rounding: z.enum(["none", "6m", "15m"]).optional(),
+    roundingMode: z.enum(["nearest", "up", "down"]).optional(),
+  })
+  .strict();
+
+export const clientBillingRulesSchema = billingRulesSchema;
+
+export const orgBillingRulesSchema = billingRulesSchema
+  .extend({
+    currency: z.string().min(1).max(10).optional(),
+    invoicePrefix: z.string().max(20).optional(),
+    paymentTermsDays: z.number().int().nonnegative().optional(),
+    lateFeePercent: z.number().nonnegative().optional(),
+    invoiceFooterText: z.string().max(1000).optional(),
+    brandColor: z.string().max(32).optional(),
+    logoUrl: z.string().optional(),
+    // Payment reminder steps in days relative to the due date, e.g.
+    // [-3, 0, 7, 14, 30]; empty or unset = no reminders
+    reminderScheduleDays: z
+      .array(z.number().int().min(-60).max(365))
+      .max(10)
+      .optional(),
+    // Invoice PDF template (see services/pdfTemplate.ts)
+    invoiceLayout: z.enum(["summary", "itemized"]).optional(),
+    remittanceInstructions: z.string().max(1000).optional(),
+    showTaxIdOnDocuments: z.boolean().optional(),
+    paymentQrCode: z.boolean().optional(),
+    // Number formatting in PDFs, emails and CSV, e.g. "de-DE"
+    locale: z
+      .string()
+      .max(35)
+      .refine(isLocale, "Must be a supported locale, e.g. en-US")
+      .optional(),
+  })
+  .strict();
+
+export type BillingRules = z.infer<typeof billingRulesSchema>;
+export type OrgBillingRules = z.infer<typeof orgBillingRulesSchema>;
+
+export interface BillingContext {
+  hourlyRate: number;
+  sourceRates: Partial<Record<(typeof ACTIVITY_SOURCES)[number], number>>;
+  visitFee: number;
+  mileageRate: number;
+  minDuration: number;
+  minimumCharge: number;
+  rounding: Rounding;
+  roundingMode: RoundingMode;
+  // Where each resolved value came from (org, client or default)
+  sources: Record<
+    | "hourlyRate"
+    | "visitFee"
+    | "mileageRate"
+    | "minDuration"
+    | "minimumCharge"
+    | "rounding"
+    | "roundingMode",
+    RuleSource
+  >;
+  clientSourceRates: BillingContext["sourceRates"];
+  orgSourceRates: BillingContext["sourceRates"];
+}
+
+function num(v: unknown): number | undefined {
+  if (typeof v === "number" && Number.isFinite(v) && v >= 0) return v;
+  if (typeof v === "string" && v.trim() !== "" && Number(v) >= 0) {
+    return Number(v);
+  }
+  return undefined;
+}
+
+/**
+ * Reads a stored rule document leniently.
+ * Pre-versioned documents (e.g. seed data using `hourly_rate`, `visit_fee`,
+ * `mileage_rate`) are upgraded to the current shape; unknown keys are dropped.
+ */
+export function normalizeStoredRules(raw: unknown): BillingRules {
+  const r = raw && typeof raw === "object" ? (raw as any) : {};
+
+  const sourceRates: NonNullable<BillingRules["sourceRates"]> = {};
+  const rawSourceRates =
+    r.sourceRates && typeof r.sourceRates === "object" ? r.sourceRates : {};
+  for (const source of ACTIVITY_SOURCES) {
+    const v = num(rawSourceRates[source]);
+    if (v !== undefined) sourceRates[source] = v;
+  }
+
+  const minDuration = num(r.minDuration ?? r.min_duration);
+
+  const candidate: BillingRules = {
+    version: BILLING_RULES_VERSION,
+    hourlyRate: num(r.hourlyRate ?? r.hourly_rate),
+    sourceRates: Object.keys(sourceRates).length ? sourceRates : undefined,
+    visitFee: num(r.visitFee ?? r.visit_fee),
+    mileageRate: num(r.mileageRate ?? r.mileage_rate),
+    minDuration:
+      minDuration !== undefined ? Math.round(minDuration) : undefined,
+    minimumCharge: num(r.minimumCharge ?? r.minimum_charge),
+    rounding:
+      r.rounding === "none" || r.rounding === "6m" || r.rounding === "15m"
+        ? r.rounding
+        : undefined,
+    roundingMode:
+      r.roundingMode === "nearest" ||
+      r.roundingMode === "up" ||
+      r.roundingMode === "down"
+        ? r.roundingMode
+        : undefined,
+  };
+
+  // Drop undefined keys so the stored/returned JSON stays tidy
+  return Object.fromEntries(
+    Object.entries(candidate).filter(([, v]) => v !== undefined)
+  ) as BillingRules;
+}
+
+/**
+ * Same as normalizeStoredRules, but keeps the org-only invoice settings.
+ */
+export function normalizeStoredOrgRules(raw: unknown): OrgBillingRules {
+  const r = raw && typeof raw === "object" ? (raw as any) : {};
+  const settings = orgBillingRulesSchema
+    .pick({
+      currency: true,
+      invoicePrefix: true,
+      paymentTermsDays: true,
+      lateFeePercent: true,
+      invoiceFooterText: true,
+      brandColor: true,
+      logoUrl: true,
+      reminderScheduleDays: true,
+      invoiceLayout: true,
+      remittanceInstructions: true,
+      showTaxIdOnDocuments: true,
+      paymentQrCode: true,
+      locale: true,
+    })
+    .partial()
+    .safeParse({
+      currency: r.currency,
+      invoicePrefix: r.invoicePrefix,
+      paymentTermsDays: r.paymentTermsDays,
+      lateFeePercent: r.lateFeePercent,
+      invoiceFooterText: r.invoiceFooterText,
+      brandColor: r.brandColor,
+      logoUrl: r.logoUrl,
+      reminderScheduleDays: r.reminderScheduleDays,
+      invoiceLayout: r.invoiceLayout,
+      remittanceInstructions: r.remittanceInstructions,
+      showTaxIdOnDocuments: r.showTaxIdOnDocuments,
+      paymentQrCode: r.paymentQrCode,
+      locale: r.locale,
+    });
+
+  const extra = settings.success
+    ? Object.fromEntries(
+        Object.entries(settings.data).filter(([, v]) => v !== undefined)
+      )
+    : {};
+
+  return { ...normalizeStoredRules(r), ...extra };
+}
+
+/**
+ * Helper: resolve effective billing values from client + org rules.
+ * Client values win over org values; anything unset falls back to defaults.
+ */
+export function getBillingContext(
+  clientRules: unknown,
+  orgRules: unknown
+): BillingContext {
+  const client = normalizeStoredRules(clientRules);
+  const org = normalizeStoredRules(orgRules);
+
+  function pick<K extends keyof BillingRules>(
+    key: K,
+    fallback: NonNullable<BillingRules[K]>
+  ): { value: NonNullable<BillingRules[K]>; source: RuleSource } {
+    if (client[key] !== undefined) {
+      return { value: client[key] as NonNullable<BillingRules[K]>, source: "client" };
+    }
+    if (org[key] !== undefined) {
+      return { value: org[key] as NonNullable<BillingRules[K]>, source: "org" };
+    }
+    return { value: fallback, source: "default" };
+  }
+
+  const hourlyRate = pick("hourlyRate", DEFAULT_HOURLY_RATE);
+  const visitFee = pick("visitFee", 0);
+  const mileageRate = pick("mileageRate", 0);
+  const minDuration = pick("minDuration", 0);
+  const minimumCharge = pick("minimumCharge", 0);
+  const rounding = pick("rounding", "none");
+  const roundingMode = pick("roundingMode", "nearest");
+
+  return {
+    hourlyRate: hourlyRate.value,
+    sourceRates: { ...(org.sourceRates ?? {}), ...(client.sourceRates ?? {}) },
+    visitFee: visitFee.value,
+    mileageRate: mileageRate.value,
+    minDuration: minDuration.value,
+    minimumCharge: minimumCharge.value,
+    rounding: rounding.value,
+    roundingMode: roundingMode.value,
+    sources: {
+      hourlyRate: hourlyRate.source,
+      visitFee: visitFee.source,
+      mileageRate: mileageRate.source,
+      minDuration: minDuration.source,
+      minimumCharge: minimumCharge.source,
+      rounding: rounding.source,
+      roundingMode: roundingMode.source,
+    },
+    clientSourceRates: client.sourceRates ?? {},
+    orgSourceRates: org.sourceRates ?? {},
+  };
+}
+
+/**
+ * Helper: apply minDuration + rounding to minutes
+ */
+export function adjustMinutes(
+  minutes: number,
+  minDuration: number,
+  rounding: Rounding,
+  roundingMode: RoundingMode = "nearest"
+): number {
+  let m = minutes;
+  if (minDuration > 0 && m < minDuration) {
+    m = minDuration;
+  }
+
+  const increment = rounding === "6m" ? 6 : rounding === "15m" ? 15 : 0;
+
+  if (increment) {
+    const fn =
+      roundingMode === "up"
+        ? Math.ceil
+        : roundingMode === "down"
+        ? Math.floor
+        : Math.round;
+    m = fn(m / increment) * increment;
+  }
+
+  return m;
+}
+
+export interface PricingActivity {
+  id: string;
+  source: string;
+  duration: number;
+  startTime: Date;
+  endTime: Date;
+  serviceType: {
+    name: string;
+    rateType: string;
+    rateAmount: MoneyInput;
+  } | null;
+}
+
+export interface PricedLine {
+  activityId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: Money;
+  amount: Money;
+  // Which rule level produced the rate for this line
+  ruleSource: RuleSource;
+  rawMinutes: number | null;
+  adjustedMinutes: number | null;
+}
+
+/**
+ * Helper: hourly rate for an activity without a service type,
+ * honoring per-source rates (client before org) before the flat hourly rate.
+ */
+function resolveHourlyRate(
+  source: string,
+  ctx: BillingContext
+): { rate: Money; ruleSource: RuleSource } {
+  const key = source as (typeof ACTIVITY_SOURCES)[number];
+
+  if (ctx.clientSourceRates[key] !== undefined) {
+    return { rate: decimal(ctx.clientSourceRates[key]), ruleSource: "client" };
+  }
+  if (ctx.sources.hourlyRate === "client") {
+    return { rate: decimal(ctx.hourlyRate), ruleSource: "client" };
+  }
+  if (ctx.orgSourceRates[key] !== undefined) {
+    return { rate: decimal(ctx.orgSourceRates[key]), ruleSource: "org" };
+  }
+  return { rate: decimal(ctx.hourlyRate), ruleSource: ctx.sources.hourlyRate };
+}
+
+/**
+ * Prices an activity's service line (time or flat rate, without the visit
+ * fee). Null when it prices to zero.
+ */
+export function priceServiceLine(
+  activity: PricingActivity,
+  ctx: BillingContext
+): PricedLine | null {
+  const rawMinutes =
+    activity.duration ||
+    Math.max(
+      0,
+      Math.round(
+        (activity.endTime.getTime() - activity.startTime.getTime()) / 60000
+      )
+    );
+
+  const svc = activity.serviceType;
+
+  let line: PricedLine;
+
+  if (svc && svc.rateType === "flat") {
+    const unitPrice = decimal(svc.rateAmount);
+    line = {
+      activityId: activity.id,
+      description: svc.name,
+      quantity: 1,
+      unitPrice,
+      amount: money(unitPrice),
+      ruleSource: "service_type",
+      rawMinutes,
+      adjustedMinutes: null,
+    };
+  } else {
+    const adjustedMinutes = adjustMinutes(
+      rawMinutes,
+      ctx.minDuration,
+      ctx.rounding,
+      ctx.roundingMode
+    );
+    const quantity = adjustedMinutes / 60;
+
+    const { rate, ruleSource } = svc
+      ? {
+          rate: decimal(svc.rateAmount),
+          ruleSource: "service_type" as RuleSource,
+        }
+      : resolveHourlyRate(activity.source, ctx);
+
+    line = {
+      activityId: activity.id,
+      description: svc ? svc.name : "Care Management Services",
+      quantity,
+      unitPrice: rate,
+      // minutes * rate / 60 keeps the product exact before rounding to cents
+      amount: money(rate.times(adjustedMinutes).dividedBy(60)),
+      ruleSource,
+      rawMinutes,
+      adjustedMinutes,
+    };
+  }
+
+  // Billed as one unit at the minimum so quantity × unitPrice = amount
+  if (line.amount.gt(0) && line.amount.lt(ctx.minimumCharge)) {
+    line.description = `${line.description} (minimum charge)`;
+    line.quantity = 1;
+    line.unitPrice = decimal(ctx.minimumCharge);
+    line.amount = money(ctx.minimumCharge);
+  }
+
+  return line.amount.gt(0) ? line : null;
+}
+
+/**
+ * Prices one activity into invoice lines (the service line, plus a visit fee
+ * line for visits when configured). Lines with a zero amount are omitted.
+ */
+export function priceActivity(
+  activity: PricingActivity,
+  ctx: BillingContext
+): PricedLine[] {
+  const lines: PricedLine[] = [];
+
+  const service = priceServiceLine(activity, ctx);
+  if (service) lines.push(service);
+
+  if (activity.source === "visit" && ctx.visitFee > 0) {
+    lines.push({
+      activityId: activity.id,
+      description: "Visit fee",
+      quantity: 1,
+      unitPrice: decimal(ctx.visitFee),
+      amount: money(ctx.visitFee),
+      ruleSource: ctx.sources.visitFee,
+      rawMinutes: null,
+      adjustedMinutes: null,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Helper: price a mileage charge using the resolved mileage rate.
+ */
+export function priceMileage(miles: number, ctx: BillingContext): Money {
+  return money(decimal(ctx.mileageRate).times(miles));
+}
@@ -0,0 +1,307 @@
+// src/services/billingSplits.ts
+import { PrismaClient } from "@prisma/client";
+import { Tx } from "./invoiceTotals";
+import { decimal, money, sumMoney, Money, MoneyInput, ZERO } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Split billing: one invoice per client, divided between the client's
+ * BillingParty records (siblings, an LTC insurer…).
+ *
+ * Fixed amounts are allocated first, then percentages of the invoice total;
+ * whatever is left goes to the primary party (or the last party), so the
+ * shares always add up to the invoice total exactly. The split is stored
+ * in InvoicePartyShare when the invoice is sent, so later edits to the
+ * parties don't rewrite issued invoices.
+ */
+
+export interface SplitTerms {
+  billingPartyId: string;
+  sharePercent: MoneyInput;
+  fixedAmount: MoneyInput;
+  isPrimary?: boolean;
+}
+
+export interface SplitShare {
+  billingPartyId: string;
+  sharePercent: Money | null;
+  fixedAmount: Money | null;
+  amount: Money;
+}
+
+function minMoney(a: Money, b: Money): Money {
+  return a.lt(b) ? a : b;
+}
+
+export function computeSplit(
+  total: MoneyInput,
+  parties: SplitTerms[]
+): SplitShare[] {
+  if (!parties.length) return [];
+
+  const invoiceTotal = money(total);
+  let remaining = invoiceTotal;
+
+  const shares: SplitShare[] = parties.map((p) => ({
+    billingPartyId: p.billingPartyId,
+    sharePercent:
+      p.sharePercent === null || p.sharePercent === undefined
+        ? null
+        : decimal(p.sharePercent),
+    fixedAmount:
+      p.fixedAmount === null || p.fixedAmount === undefined
+        ? null
+        : money(p.fixedAmount),
+    amount: ZERO,
+  }));
+
+  const take = (wanted: Money) => {
+    const amount = minMoney(wanted, remaining.gt(0) ? remaining : ZERO);
+    remaining = remaining.minus(amount);
+    return amount;
+  };
+
+  for (const share of shares) {
+    if (share.fixedAmount) share.amount = take(share.fixedAmount);
+  }
+  for (const share of shares) {
+    if (!share.fixedAmount && share.sharePercent) {
+      share.amount = take(
+        money(invoiceTotal.times(share.sharePercent).dividedBy(100))
+      );
+    }
+  }
+
+  // Remainder: primary party, else the first party without terms, else last
+  const primaryIndex = parties.findIndex((p) => p.isPrimary);
+  const openIndex = shares.findIndex(
+    (s) => !s.fixedAmount && !s.sharePercent
+  );
+  const remainderIndex =
+    primaryIndex >= 0
+      ? primaryIndex
+      : openIndex >= 0
+      ? openIndex
+      : shares.length - 1;
+
+  const remainderShare = shares[remainderIndex];
+  remainderShare.amount = remainderShare.amount.plus(remaining);
+
+  return shares;
+}
+
+export interface PartyBalance {
+  billingPartyId: string;
+  amount: Money;
+  paid: Money;
+  credited: Money;
+  balance: Money;
+}
+
+/**
+ * Per-party position on one invoice. Payments count for the party that
+ * made them; credit notes are spread across parties pro rata to their
+ * shares. Payments with no party are reported as `unassignedPaid`.
+ */
+export function partyBalances(
+  shares: { billingPartyId: string; amount: MoneyInput }[],
+  payments: {
+    amount: MoneyInput;
+    status: string;
+    billingPartyId: string | null;
+  }[],
+  creditNotes: { amount: MoneyInput; status: string }[] = []
+): { parties: PartyBalance[]; unassignedPaid: Money } {
+  const completed = payments.filter((p) => p.status === "completed");
+  const totalCredited = sumMoney(
+    creditNotes.filter((c) => c.status === "issued").map((c) => c.amount)
+  );
+  const sharesTotal = sumMoney(shares.map((s) => s.amount));
+
+  let creditLeft = totalCredited;
+
+  const parties = shares.map((share, index) => {
+    const amount = money(share.amount);
+    const paid = sumMoney(
+      completed
+        .filter((p) => p.billingPartyId === share.billingPartyId)
+        .map((p) => p.amount)
+    );
+
+    const credited =
+      index === shares.length - 1 || sharesTotal.lte(0)
+        ? creditLeft
+        : money(totalCredited.times(amount).dividedBy(sharesTotal));
+    creditLeft = creditLeft.minus(credited);
+
+    return {
+      billingPartyId: share.billingPartyId,
+      amount,
+      paid,
+      credited,
+      balance: amount.minus(paid).minus(credited),
+    };
+  });
+
+  const partyIds = new Set(shares.map((s) => s.billingPartyId));
+  const unassignedPaid = sumMoney(
+    completed
+      .filter((p) => !p.billingPartyId || !partyIds.has(p.billingPartyId))
+      .map((p) => p.amount)
+  );
+
+  return { parties, unassignedPaid };
+}
+
+/**
+ * Store (or refresh) an invoice's split. The first call copies terms from
+ * the client's active parties; later calls (e.g. after a late fee changes
+ * the total) re-apply the terms already stored on the invoice.
+ */
+export async function snapshotInvoiceSplit(tx: Tx, invoiceId: string) {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: {
+      partyShares: {
+        include: { billingParty: { select: { isPrimary: true } } },
+        orderBy: { billingParty: { createdAt: "asc" } },
+      },
+    },
+  });
+
+  const terms: SplitTerms[] = invoice.partyShares.length
+    ? invoice.partyShares.map((s) => ({
+        billingPartyId: s.billingPartyId,
+        sharePercent: s.sharePercent,
+        fixedAmount: s.fixedAmount,
+        isPrimary: s.billingParty.isPrimary,
+      }))
+    : (
+        await tx.billingParty.findMany({
+          where: { clientId: invoice.clientId, active: true },
+          orderBy: { createdAt: "asc" },
+        })
+      ).map((p) => ({
+        billingPartyId: p.id,
+        sharePercent: p.sharePercent,
+        fixedAmount: p.fixedAmount,
+        isPrimary: p.isPrimary,
+      }));
+
+  const shares = computeSplit(invoice.totalAmount, terms);
+
+  await tx.invoicePartyShare.deleteMany({ where: { invoiceId } });
+  if (shares.length) {
+    await tx.invoicePartyShare.createMany({
+      data: shares.map((s) => ({ invoiceId, ...s })),
+    });
+  }
+
+  return shares;
+}
+
+/**
+ * Helper: drop a stored split (invoice returned to draft).
+ */
+export async function clearInvoiceSplit(tx: Tx, invoiceId: string) {
+  await tx.invoicePartyShare.deleteMany({ where: { invoiceId } });
+}
+
+export interface InvoiceSplitSummary {
+  // true for drafts: computed from the current parties, not yet stored
+  provisional: boolean;
+  parties: (PartyBalance & {
+    name: string;
+    partyType: string;
+    email: string | null;
+    sharePercent: Money | null;
+    fixedAmount: Money | null;
+  })[];
+  unassignedPaid: Money;
+}
+
+/**
+ * Split summary for the invoice detail / PDF, or null when the client has
+ * a single payer.
+ */
+export async function describeInvoiceSplit(invoice: {
+  id: string;
+  clientId: string;
+  status: string;
+  totalAmount: MoneyInput;
+  payments: {
+    amount: MoneyInput;
+    status: string;
+    billingPartyId: string | null;
+  }[];
+  creditNotes?: { amount: MoneyInput; status: string }[];
+}): Promise<InvoiceSplitSummary | null> {
+  const stored = await prisma.invoicePartyShare.findMany({
+    where: { invoiceId: invoice.id },
+    include: { billingParty: true },
+    orderBy: { billingParty: { createdAt: "asc" } },
+  });
+
+  let provisional = false;
+  let rows: {
+    party: {
+      id: string;
+      name: string;
+      partyType: string;
+      email: string | null;
+    };
+    share: SplitShare;
+  }[];
+
+  if (stored.length) {
+    rows = stored.map((s) => ({
+      party: s.billingParty,
+      share: {
+        billingPartyId: s.billingPartyId,
+        sharePercent: s.sharePercent,
+        fixedAmount: s.fixedAmount,
+        amount: s.amount,
+      },
+    }));
+  } else if (invoice.status === "draft") {
+    const parties = await prisma.billingParty.findMany({
+      where: { clientId: invoice.clientId, active: true },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!parties.length) return null;
+
+    provisional = true;
+    const shares = computeSplit(
+      invoice.totalAmount,
+      parties.map((p) => ({
+        billingPartyId: p.id,
+        sharePercent: p.sharePercent,
+        fixedAmount: p.fixedAmount,
+        isPrimary: p.isPrimary,
+      }))
+    );
+    rows = shares.map((share, i) => ({ party: parties[i], share }));
+  } else {
+    return null;
+  }
+
+  const balances = partyBalances(
+    rows.map((r) => r.share),
+    invoice.payments,
+    invoice.creditNotes ?? []
+  );
+
+  return {
+    provisional,
+    parties: rows.map((r, i) => ({
+      ...balances.parties[i],
+      name: r.party.name,
+      partyType: r.party.partyType,
+      email: r.party.email,
+      sharePercent: r.share.sharePercent,
+      fixedAmount: r.share.fixedAmount,
+    })),
+    unassignedPaid: balances.unassignedPaid,
+  };
+}
@@ -0,0 +1,310 @@
+// src/services/claimExport.ts
+import { Claim, ClaimBatch, ClaimLine, Client } from "@prisma/client";
+import { formatMoney } from "./money";
+
+/**
+ * Claim batch exports.
+ *
+ * - render837P: an ANSI X12 837 Professional (005010X222A1-style)
+ *   interchange with one subscriber loop per claim. Submitter/receiver IDs
+ *   come from CLAIMS_SUBMITTER_ID / CLAIMS_RECEIVER_ID (clearinghouse).
+ * - renderCms1500: one CMS-1500-style page per claim on a PDFKit document.
+ */
+
+export type ExportClaim = Claim & { client: Client; lines: ClaimLine[] };
+
+export interface ExportOrg {
+  id: string;
+  name: string;
+  contactEmail: string;
+  npi: string | null;
+  taxId: string | null;
+}
+
+// X12 delimiters can't appear inside element values
+function x12(value: string | null | undefined): string {
+  return (value ?? "").replace(/[*~:^\n\r]/g, " ").trim().toUpperCase();
+}
+
+function ymd(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function hhmm(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(":", "");
+}
+
+function splitName(name: string): { first: string; last: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return { first: "", last: parts[0] ?? "" };
+  return {
+    first: parts.slice(0, -1).join(" "),
+    last: parts[parts.length - 1],
+  };
+}
+
+// ICD-10 codes go on the claim without the dot
+function diagnosisCode(value: string | null): string | null {
+  const code = (value ?? "").replace(".", "").trim().toUpperCase();
+  return /^[A-Z][0-9][0-9A-Z]{1,5}$/.test(code) ? code : null;
+}
+
+export function render837P(
+  batch: ClaimBatch,
+  claims: ExportClaim[],
+  org: ExportOrg,
+  now: Date = new Date()
+): string {
+  const submitterId = process.env.CLAIMS_SUBMITTER_ID || org.id.slice(0, 15);
+  const receiverId = process.env.CLAIMS_RECEIVER_ID || "CLEARINGHOUSE";
+  // Interchange control number: 9 digits from the clock, unique per export
+  const control = String(now.getTime() % 1_000_000_000).padStart(9, "0");
+
+  const segments: string[] = [];
+  const txn: string[] = [];
+  const seg = (...elements: (string | number)[]) =>
+    txn.push(elements.join("*"));
+
+  segments.push(
+    [
+      "ISA",
+      "00",
+      "".padEnd(10),
+      "00",
+      "".padEnd(10),
+      "ZZ",
+      x12(submitterId).padEnd(15).slice(0, 15),
+      "ZZ",
+      x12(receiverId).padEnd(15).slice(0, 15),
+      ymd(now).slice(2),
+      hhmm(now),
+      "^",
+      "00501",
+      control,
+      "0",
+      "P",
+      ":",
+    ].join("*")
+  );
+  segments.push(
+    [
+      "GS",
+      "HC",
+      x12(submitterId),
+      x12(receiverId),
+      ymd(now),
+      hhmm(now),
+      "1",
+      "X",
+      "005010X222A1",
+    ].join("*")
+  );
+
+  seg("ST", "837", "0001", "005010X222A1");
+  seg(
+    "BHT",
+    "0019",
+    "00",
+    x12(batch.id.slice(0, 30)),
+    ymd(now),
+    hhmm(now),
+    "CH"
+  );
+
+  // NM1 for an organization: last name only, ID qualifier + ID at the end
+  const entity = (code: string, name: string, idQual: string, id: string) =>
+    seg("NM1", code, "2", x12(name), "", "", "", "", idQual, x12(id));
+
+  // 1000A submitter / 1000B receiver
+  entity("41", org.name, "46", submitterId);
+  seg("PER", "IC", x12(org.name), "EM", x12(org.contactEmail));
+  entity("40", receiverId, "46", receiverId);
+
+  // 2000A billing provider
+  seg("HL", "1", "", "20", "1");
+  entity("85", org.name, "XX", org.npi ?? "");
+  if (org.taxId) seg("REF", "EI", x12(org.taxId).replace(/-/g, ""));
+
+  let hl = 1;
+  for (const claim of claims) {
+    hl += 1;
+    const patient = splitName(claim.client.name);
+
+    // 2000B subscriber (patient is the insured)
+    seg("HL", hl, "1", "22", "0");
+    seg("SBR", "P", "18", x12(claim.groupNumber), "", "", "", "", "", "CI");
+    seg(
+      "NM1",
+      "IL",
+      "1",
+      x12(patient.last),
+      x12(patient.first),
+      "",
+      "",
+      "",
+      "MI",
+      x12(claim.memberId)
+    );
+    seg("DMG", "D8", ymd(claim.client.dob));
+    seg(
+      "NM1",
+      "PR",
+      "2",
+      x12(claim.payerName),
+      "",
+      "",
+      "",
+      "",
+      "PI",
+      x12(claim.payerName).replace(/\s+/g, "").slice(0, 80)
+    );
+
+    // 2300 claim
+    seg(
+      "CLM",
+      x12(claim.id.slice(0, 38)),
+      formatMoney(claim.totalCharge),
+      "",
+      "",
+      "11:B:1",
+      "Y",
+      "A",
+      "Y",
+      "Y"
+    );
+    const dx = diagnosisCode(claim.diagnosisCode);
+    if (dx) seg("HI", `ABK:${dx}`);
+
+    // 2400 service lines
+    claim.lines.forEach((line, index) => {
+      seg("LX", index + 1);
+      seg(
+        "SV1",
+        `HC:${x12(line.procedureCode)}`,
+        formatMoney(line.chargeAmount),
+        "UN",
+        line.units,
+        "",
+        "",
+        dx ? "1" : ""
+      );
+      seg("DTP", "472", "D8", ymd(line.serviceDate));
+      if (line.renderingProviderNpi) {
+        const provider = splitName(line.renderingProviderName);
+        seg(
+          "NM1",
+          "82",
+          "1",
+          x12(provider.last),
+          x12(provider.first),
+          "",
+          "",
+          "",
+          "XX",
+          x12(line.renderingProviderNpi)
+        );
+      }
+    });
+  }
+
+  // SE counts ST through SE inclusive
+  seg("SE", txn.length + 1, "0001");
+
+  segments.push(...txn);
+  segments.push(["GE", "1", "1"].join("*"));
+  segments.push(["IEA", "1", control].join("*"));
+
+  return segments.map((s) => `${s}~`).join("\n") + "\n";
+}
+
+/**
+ * CMS-1500-style claim form, one page per claim. Box numbers follow the
+ * 02/12 form so billers can transcribe or compare against payer portals.
+ */
+export function renderCms1500(
+  doc: PDFKit.PDFDocument,
+  claims: ExportClaim[],
+  org: ExportOrg
+) {
+  claims.forEach((claim, claimIndex) => {
+    if (claimIndex > 0) doc.addPage();
+
+    const field = (box: string, label: string, value: string) => {
+      doc
+        .font("Helvetica")
+        .fontSize(7)
+        .fillColor("#6B7280")
+        .text(`${box}. ${label}`)
+        .font("Helvetica-Bold")
+        .fontSize(10)
+        .fillColor("#111827")
+        .text(value || "—")
+        .moveDown(0.3);
+    };
+
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(14)
+      .fillColor("#111827")
+      .text("HEALTH INSURANCE CLAIM FORM (CMS-1500)", { align: "center" })
+      .moveDown(0.2);
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#6B7280")
+      .text(
+        `Claim ${claim.id} – status ${claim.status.toUpperCase()}`,
+        { align: "center" }
+      )
+      .moveDown(1);
+
+    field("1", "Insurance type", claim.insuranceType ?? "Other");
+    field("1a", "Insured's ID number", claim.memberId);
+    field("2", "Patient's name", claim.client.name);
+    field(
+      "3",
+      "Patient's birth date",
+      claim.client.dob.toISOString().slice(0, 10)
+    );
+    field("5", "Patient's address", claim.client.address);
+    field("11", "Insured's policy group", claim.groupNumber ?? "");
+    field("11c", "Insurance plan name", claim.payerName);
+    field("21", "Diagnosis (ICD-10)", claim.diagnosisCode ?? "");
+
+    // Box 24 service lines
+    doc
+      .font("Helvetica")
+      .fontSize(7)
+      .fillColor("#6B7280")
+      .text("24. Services")
+      .moveDown(0.2);
+
+    const top = doc.y;
+    const cols = { date: 50, code: 130, units: 210, charge: 260, npi: 350 };
+    doc.font("Helvetica-Bold").fontSize(8).fillColor("#111827");
+    doc.text("A. Date", cols.date, top);
+    doc.text("D. CPT/HCPCS", cols.code, top);
+    doc.text("G. Units", cols.units, top);
+    doc.text("F. Charges", cols.charge, top);
+    doc.text("J. Rendering NPI", cols.npi, top);
+
+    let y = top + 14;
+    doc.font("Helvetica").fontSize(9);
+    for (const line of claim.lines) {
+      doc.text(line.serviceDate.toISOString().slice(0, 10), cols.date, y);
+      doc.text(line.procedureCode, cols.code, y);
+      doc.text(String(line.units), cols.units, y);
+      doc.text(formatMoney(line.chargeAmount), cols.charge, y);
+      doc.text(line.renderingProviderNpi ?? "", cols.npi, y);
+      y += 14;
+    }
+
+    doc.x = 50;
+    doc.y = y + 10;
+
+    field("25", "Federal tax ID number", org.taxId ?? "");
+    field("26", "Patient's account no.", claim.clientId.slice(0, 8));
+    field("28", "Total charge", formatMoney(claim.totalCharge));
+    field("33", "Billing provider", `${org.name}  NPI ${org.npi ?? "—"}`);
+  });
+}
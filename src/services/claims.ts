@@ -0,0 +1,286 @@
+// src/services/claims.ts
+import { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { getBillingContext, priceServiceLine } from "./billingRules";
+import { money, sumMoney, Money, MoneyInput } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Insurance claims.
+ *
+ * A claim batch collects a period's billable activities for clients with
+ * insurance on file: one Claim per client (against their primary policy),
+ * one ClaimLine per activity with its procedure code (activity billingCode,
+ * else the service type's), 15-minute units and the charge from the normal
+ * pricing rules. Activities already on any claim are left out, so
+ * re-running a period only picks up new work; a denied claim is corrected
+ * and resubmitted (denied → submitted) rather than claimed again.
+ */
+
+export const CLAIM_STATUSES = [
+  "draft",
+  "submitted",
+  "accepted",
+  "denied",
+  "paid",
+] as const;
+
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
+const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["accepted", "denied"],
+  accepted: ["paid", "denied"],
+  // Corrected claims are resubmitted
+  denied: ["submitted"],
+  paid: [],
+};
+
+export function isClaimStatus(value: unknown): value is ClaimStatus {
+  return (
+    typeof value === "string" &&
+    (CLAIM_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+// Minutes per billing unit for time-based procedure codes
+const UNIT_MINUTES = 15;
+
+export interface ClaimSkip {
+  clientId: string;
+  activityId?: string;
+  code:
+    | "MISSING_MEMBER_ID"
+    | "NO_BILLING_CODE"
+    | "NO_CHARGE"
+    | "NO_CLAIMABLE_ACTIVITIES";
+  reason: string;
+}
+
+/**
+ * Build a claim batch for the period. Returns the batch (null when nothing
+ * was claimable) and everything that was skipped, with why.
+ */
+export async function createClaimBatch(params: {
+  orgId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  clientIds?: string[];
+  createdById: string | null;
+}) {
+  const { orgId, periodStart, periodEnd } = params;
+
+  if (
+    Number.isNaN(periodStart.getTime()) ||
+    Number.isNaN(periodEnd.getTime()) ||
+    periodStart > periodEnd
+  ) {
+    throw new AppError("Invalid billing period", 400, "INVALID_PERIOD");
+  }
+
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { billingRulesJson: true },
+  });
+
+  const clients = await prisma.client.findMany({
+    where: {
+      orgId,
+      insurances: { some: {} },
+      ...(params.clientIds?.length ? { id: { in: params.clientIds } } : {}),
+    },
+    include: {
+      insurances: { orderBy: [{ primary: "desc" }, { createdAt: "asc" }] },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  const skipped: ClaimSkip[] = [];
+  const claims: Prisma.ClaimCreateWithoutBatchInput[] = [];
+
+  for (const client of clients) {
+    const policy = client.insurances[0];
+
+    if (!policy.memberId || !policy.carrier) {
+      skipped.push({
+        clientId: client.id,
+        code: "MISSING_MEMBER_ID",
+        reason: "Primary insurance is missing the carrier or member ID.",
+      });
+      continue;
+    }
+
+    const activities = await prisma.activity.findMany({
+      where: {
+        orgId,
+        clientId: client.id,
+        isBillable: true,
+        startTime: { gte: periodStart },
+        endTime: { lte: periodEnd },
+        claimLine: null,
+      },
+      include: { serviceType: true, cm: true },
+      orderBy: { startTime: "asc" },
+    });
+
+    const ctx = getBillingContext(
+      client.billingRulesJson,
+      org?.billingRulesJson
+    );
+    const lines: Prisma.ClaimLineCreateWithoutClaimInput[] = [];
+    const charges: Money[] = [];
+
+    for (const activity of activities) {
+      const procedureCode =
+        activity.billingCode || activity.serviceType?.billingCode;
+
+      if (!procedureCode) {
+        skipped.push({
+          clientId: client.id,
+          activityId: activity.id,
+          code: "NO_BILLING_CODE",
+          reason: "Activity and its service type have no billing code.",
+        });
+        continue;
+      }
+
+      // Service line only; visit fees aren't claimable
+      const priced = priceServiceLine(activity, ctx);
+      if (!priced) {
+        skipped.push({
+          clientId: client.id,
+          activityId: activity.id,
+          code: "NO_CHARGE",
+          reason: "Activity priced to zero with the current rules.",
+        });
+        continue;
+      }
+
+      charges.push(priced.amount);
+      lines.push({
+        activity: { connect: { id: activity.id } },
+        serviceDate: activity.startTime,
+        procedureCode,
+        units:
+          priced.adjustedMinutes === null
+            ? 1
+            : Math.max(1, Math.round(priced.adjustedMinutes / UNIT_MINUTES)),
+        chargeAmount: priced.amount,
+        renderingProviderName: activity.cm.name,
+        renderingProviderNpi: activity.cm.npi,
+      });
+    }
+
+    if (!lines.length) {
+      if (!activities.length) {
+        skipped.push({
+          clientId: client.id,
+          code: "NO_CLAIMABLE_ACTIVITIES",
+          reason: "No unclaimed billable activities in this period.",
+        });
+      }
+      continue;
+    }
+
+    claims.push({
+      org: { connect: { id: orgId } },
+      client: { connect: { id: client.id } },
+      clientInsurance: { connect: { id: policy.id } },
+      payerName: policy.carrier,
+      insuranceType: policy.insuranceType,
+      memberId: policy.memberId,
+      groupNumber: policy.groupNumber,
+      policyNumber: policy.policyNumber,
+      diagnosisCode: client.primaryDiagnosis,
+      totalCharge: sumMoney(charges),
+      lines: { create: lines },
+    });
+  }
+
+  if (!claims.length) return { batch: null, skipped };
+
+  try {
+    const batch = await prisma.claimBatch.create({
+      data: {
+        orgId,
+        periodStart,
+        periodEnd,
+        createdById: params.createdById,
+        claims: { create: claims },
+      },
+      include: { claims: { include: { lines: true } } },
+    });
+
+    return { batch, skipped };
+  } catch (err) {
+    // A concurrent batch claimed some of these activities first
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      throw new AppError(
+        "Some of these activities were just claimed by another batch. " +
+          "Run the batch again to claim the rest.",
+        409,
+        "ACTIVITY_ALREADY_CLAIMED"
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * Move a claim through its lifecycle, stamping the matching dates.
+ */
+export async function updateClaimStatus(params: {
+  orgId: string;
+  claimId: string;
+  status: ClaimStatus;
+  payerClaimNumber?: string | null;
+  paidAmount?: MoneyInput | null;
+  denialReason?: string | null;
+}) {
+  const claim = await prisma.claim.findFirst({
+    where: { id: params.claimId, orgId: params.orgId },
+  });
+
+  if (!claim) {
+    throw new AppError("Claim not found", 404, "CLAIM_NOT_FOUND");
+  }
+
+  const from = claim.status;
+  const to = params.status;
+
+  if (!isClaimStatus(from) || !CLAIM_TRANSITIONS[from].includes(to)) {
+    throw new AppError(
+      `Claim cannot move from "${from}" to "${to}".`,
+      409,
+      "INVALID_STATUS_TRANSITION"
+    );
+  }
+
+  const now = new Date();
+  const data: Prisma.ClaimUpdateInput = { status: to };
+
+  if (params.payerClaimNumber !== undefined) {
+    data.payerClaimNumber = params.payerClaimNumber;
+  }
+
+  if (to === "submitted") {
+    data.submittedAt = now;
+    data.denialReason = null;
+    data.adjudicatedAt = null;
+  }
+  if (to === "accepted" || to === "denied") data.adjudicatedAt = now;
+  if (to === "denied") data.denialReason = params.denialReason ?? null;
+  if (to === "paid") {
+    data.paidAt = now;
+    data.paidAmount =
+      params.paidAmount === null || params.paidAmount === undefined
+        ? claim.totalCharge
+        : money(params.paidAmount);
+  }
+
+  return prisma.claim.update({ where: { id: claim.id }, data });
+}
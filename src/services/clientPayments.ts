@@ -0,0 +1,573 @@
+// src/services/clientPayments.ts
+import { PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { loadRateConverter } from "./exchangeRates";
+import { invoiceBalance, Tx } from "./invoiceTotals";
+import { money, sumMoney, Money, MoneyInput, ZERO } from "./money";
+import { applyInvoicePayment, changePaymentStatusTx } from "./payments";
+
+const prisma = new PrismaClient();
+
+/**
+ * Client-level payments.
+ *
+ * A ClientPayment is money received on the client account, e.g. one check
+ * covering several months. Allocating it creates ordinary Payment rows on
+ * invoices (clientPaymentId set), so invoice balances, statements and aging
+ * work unchanged. Whatever isn't allocated is unapplied credit; it is
+ * applied oldest-first whenever one of the client's invoices is issued.
+ * A client payment is in one currency and only pays invoices in it, so
+ * unapplied credit is reported per currency.
+ *
+ * Reversing a single allocation moves its amount back to unapplied credit
+ * (a misapplied payment). A bounced check is reversed at the client
+ * payment level, which reverses every allocation with it.
+ */
+
+export type AllocationStrategy = "oldest_first" | "manual" | "none";
+
+export interface AllocationInput {
+  invoiceId: string;
+  amount: MoneyInput;
+}
+
+// Allocation rows that still hold money from the client payment
+const ACTIVE_ALLOCATION_STATUSES = ["pending", "completed"];
+
+const clientPaymentInclude = {
+  allocations: {
+    orderBy: { paidAt: "asc" as const },
+    include: {
+      invoice: {
+        select: {
+          id: true,
+          invoiceNumber: true,
+          periodStart: true,
+          periodEnd: true,
+          status: true,
+        },
+      },
+    },
+  },
+  client: { select: { id: true, name: true, primaryCMId: true } },
+  billingParty: { select: { id: true, name: true } },
+};
+
+/**
+ * Amount of a client payment not yet allocated to invoices.
+ */
+export function unappliedAmount(clientPayment: {
+  amount: MoneyInput;
+  status: string;
+  allocations: { amount: MoneyInput; kind: string; status: string }[];
+}): Money {
+  if (clientPayment.status !== "completed") return ZERO;
+
+  const allocated = sumMoney(
+    clientPayment.allocations
+      .filter(
+        (a) =>
+          a.kind === "payment" &&
+          ACTIVE_ALLOCATION_STATUSES.includes(a.status)
+      )
+      .map((a) => a.amount)
+  );
+  const rest = money(clientPayment.amount).minus(allocated);
+  return rest.gt(0) ? rest : ZERO;
+}
+
+/**
+ * Helper: the client payment with allocated/unapplied totals.
+ */
+function withTotals<
+  T extends {
+    amount: MoneyInput;
+    status: string;
+    allocations: { amount: MoneyInput; kind: string; status: string }[];
+  }
+>(clientPayment: T) {
+  const unapplied = unappliedAmount(clientPayment);
+  return {
+    ...clientPayment,
+    allocatedAmount:
+      clientPayment.status === "completed"
+        ? money(clientPayment.amount).minus(unapplied)
+        : ZERO,
+    unappliedAmount: unapplied,
+  };
+}
+
+async function findClientPayment(tx: Tx, orgId: string, id: string) {
+  const clientPayment = await tx.clientPayment.findFirst({
+    where: { id, orgId },
+    include: clientPaymentInclude,
+  });
+
+  if (!clientPayment) {
+    throw new AppError(
+      "Client payment not found",
+      404,
+      "CLIENT_PAYMENT_NOT_FOUND"
+    );
+  }
+  return clientPayment;
+}
+
+/**
+ * Helper: the client's sent/overdue invoices in `currency` with a balance,
+ * oldest due first.
+ */
+async function openInvoices(
+  tx: Tx,
+  params: { orgId: string; clientId: string; currency: string }
+) {
+  const invoices = await tx.invoice.findMany({
+    where: { ...params, status: { in: ["sent", "overdue"] } },
+    include: { payments: true, creditNotes: true },
+    orderBy: [{ dueDate: "asc" }, { sentAt: "asc" }, { createdAt: "asc" }],
+  });
+
+  return invoices
+    .map((invoice) => ({
+      invoice,
+      balance: invoiceBalance(
+        invoice.totalAmount,
+        invoice.payments,
+        invoice.creditNotes
+      ).balance,
+    }))
+    .filter((row) => row.balance.gt(0));
+}
+
+/**
+ * Helper: turn the requested allocation into { invoiceId, amount } rows,
+ * checked against the open invoices and the credit available.
+ */
+async function planAllocations(
+  tx: Tx,
+  params: {
+    orgId: string;
+    clientId: string;
+    currency: string;
+    available: Money;
+    allocations?: AllocationInput[];
+  }
+): Promise<{ invoiceId: string; amount: Money }[]> {
+  const open = await openInvoices(tx, {
+    orgId: params.orgId,
+    clientId: params.clientId,
+    currency: params.currency,
+  });
+
+  // Oldest-first: fill each open invoice until the credit runs out
+  if (!params.allocations) {
+    const plan: { invoiceId: string; amount: Money }[] = [];
+    let remaining = params.available;
+
+    for (const { invoice, balance } of open) {
+      if (remaining.lte(0)) break;
+      const amount = balance.lt(remaining) ? balance : remaining;
+      plan.push({ invoiceId: invoice.id, amount });
+      remaining = remaining.minus(amount);
+    }
+    return plan;
+  }
+
+  const balances = new Map(
+    open.map(({ invoice, balance }) => [invoice.id, balance])
+  );
+  const seen = new Set<string>();
+
+  const plan = params.allocations.map((a) => {
+    const amount = money(a.amount);
+    const balance = balances.get(a.invoiceId);
+
+    if (seen.has(a.invoiceId)) {
+      throw new AppError(
+        "Each invoice can only appear once in allocations.",
+        400,
+        "DUPLICATE_ALLOCATION"
+      );
+    }
+    seen.add(a.invoiceId);
+
+    if (!balance) {
+      throw new AppError(
+        `Invoice ${a.invoiceId} is not an open ${
+          params.currency
+        } invoice for this client.`,
+        409,
+        "INVOICE_NOT_PAYABLE"
+      );
+    }
+    if (amount.lte(0) || amount.gt(balance)) {
+      throw new AppError(
+        `Allocation to invoice ${
+          a.invoiceId
+        } must be between 0.01 and ${balance.toFixed(2)}.`,
+        409,
+        "ALLOCATION_EXCEEDS_BALANCE"
+      );
+    }
+    return { invoiceId: a.invoiceId, amount };
+  });
+
+  const total = sumMoney(plan.map((p) => p.amount));
+  if (total.gt(params.available)) {
+    throw new AppError(
+      `Allocations total ${total.toFixed(
+        2
+      )} but only ${params.available.toFixed(2)} is unapplied.`,
+      409,
+      "ALLOCATION_EXCEEDS_CREDIT"
+    );
+  }
+
+  return plan;
+}
+
+/**
+ * Helper: allocate part of a client payment (oldest-first when no
+ * allocations are given). Returns the Payment rows created.
+ */
+async function allocateInTx(
+  tx: Tx,
+  params: {
+    orgId: string;
+    clientPaymentId: string;
+    allocations?: AllocationInput[];
+    paidAt?: Date;
+    changedById: string | null;
+  }
+) {
+  const clientPayment = await findClientPayment(
+    tx,
+    params.orgId,
+    params.clientPaymentId
+  );
+
+  const plan = await planAllocations(tx, {
+    orgId: params.orgId,
+    clientId: clientPayment.clientId,
+    currency: clientPayment.currency,
+    available: unappliedAmount(clientPayment),
+    allocations: params.allocations,
+  });
+
+  const created = [];
+  for (const row of plan) {
+    const { payment } = await applyInvoicePayment(tx, {
+      orgId: params.orgId,
+      invoiceId: row.invoiceId,
+      amount: row.amount,
+      method: clientPayment.method,
+      reference: clientPayment.reference,
+      billingPartyId: clientPayment.billingPartyId,
+      paidAt: params.paidAt,
+      clientPaymentId: clientPayment.id,
+      changedById: params.changedById,
+      reason: "Client payment applied",
+    });
+    created.push(payment);
+  }
+
+  return created;
+}
+
+/**
+ * Record money received on the client account and allocate it:
+ * oldest-first (default), manually, or not at all (held as credit).
+ * `currency` defaults to the client's billing currency.
+ */
+export async function receiveClientPayment(params: {
+  orgId: string;
+  clientId: string;
+  amount: MoneyInput;
+  currency?: string;
+  method: string;
+  reference?: string | null;
+  billingPartyId?: string | null;
+  receivedAt?: Date;
+  notes?: string | null;
+  allocation?: AllocationStrategy;
+  allocations?: AllocationInput[];
+  changedById: string | null;
+}) {
+  const { orgId, clientId } = params;
+  const allocation = params.allocation ?? "oldest_first";
+
+  if (allocation === "manual" && !params.allocations?.length) {
+    throw new AppError(
+      "allocations are required for manual allocation.",
+      400,
+      "ALLOCATIONS_REQUIRED"
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const client = await tx.client.findFirst({
+      where: { id: clientId, orgId },
+      select: {
+        id: true,
+        currency: true,
+        org: { select: { currencyCode: true } },
+      },
+    });
+    if (!client) {
+      throw new AppError("Client not found", 404, "CLIENT_NOT_FOUND");
+    }
+
+    if (params.billingPartyId) {
+      const party = await tx.billingParty.findFirst({
+        where: { id: params.billingPartyId, clientId, orgId },
+      });
+      if (!party) {
+        throw new AppError(
+          "billingPartyId is not a billing party for this client.",
+          400,
+          "INVALID_BILLING_PARTY"
+        );
+      }
+    }
+
+    const receivedAt = params.receivedAt ?? new Date();
+
+    const clientPayment = await tx.clientPayment.create({
+      data: {
+        orgId,
+        clientId,
+        billingPartyId: params.billingPartyId ?? null,
+        amount: money(params.amount),
+        currency:
+          params.currency ||
+          client.currency ||
+          client.org.currencyCode ||
+          "USD",
+        method: params.method,
+        reference: params.reference || null,
+        receivedAt,
+        notes: params.notes || null,
+        createdById: params.changedById,
+      },
+    });
+
+    if (allocation !== "none") {
+      await allocateInTx(tx, {
+        orgId,
+        clientPaymentId: clientPayment.id,
+        allocations: allocation === "manual" ? params.allocations : undefined,
+        paidAt: receivedAt,
+        changedById: params.changedById,
+      });
+    }
+
+    return withTotals(await findClientPayment(tx, orgId, clientPayment.id));
+  });
+}
+
+/**
+ * Allocate unapplied credit of an existing client payment (oldest-first
+ * when no allocations are given).
+ */
+export async function allocateClientPayment(params: {
+  orgId: string;
+  clientPaymentId: string;
+  allocations?: AllocationInput[];
+  changedById: string | null;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const clientPayment = await findClientPayment(
+      tx,
+      params.orgId,
+      params.clientPaymentId
+    );
+
+    if (unappliedAmount(clientPayment).lte(0)) {
+      throw new AppError(
+        "This payment has no unapplied credit.",
+        409,
+        "NO_UNAPPLIED_CREDIT"
+      );
+    }
+
+    await allocateInTx(tx, params);
+    return withTotals(
+      await findClientPayment(tx, params.orgId, params.clientPaymentId)
+    );
+  });
+}
+
+/**
+ * Take an allocation back off its invoice; the amount returns to the
+ * client payment's unapplied credit.
+ */
+export async function unapplyAllocation(params: {
+  orgId: string;
+  clientPaymentId: string;
+  paymentId: string;
+  changedById: string | null;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const clientPayment = await findClientPayment(
+      tx,
+      params.orgId,
+      params.clientPaymentId
+    );
+
+    const allocation = clientPayment.allocations.find(
+      (a) => a.id === params.paymentId && a.kind === "payment"
+    );
+    if (!allocation) {
+      throw new AppError(
+        "Allocation not found on this client payment",
+        404,
+        "ALLOCATION_NOT_FOUND"
+      );
+    }
+
+    await changePaymentStatusTx(tx, {
+      orgId: params.orgId,
+      paymentId: allocation.id,
+      status: allocation.status === "pending" ? "failed" : "reversed",
+      reason: "Unapplied to client credit",
+      changedById: params.changedById,
+    });
+
+    return withTotals(
+      await findClientPayment(tx, params.orgId, params.clientPaymentId)
+    );
+  });
+}
+
+/**
+ * Bounced check and the like: reverse every allocation and drop the
+ * remaining credit.
+ */
+export async function reverseClientPayment(params: {
+  orgId: string;
+  clientPaymentId: string;
+  reason?: string | null;
+  changedById: string | null;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const clientPayment = await findClientPayment(
+      tx,
+      params.orgId,
+      params.clientPaymentId
+    );
+
+    if (clientPayment.status !== "completed") {
+      throw new AppError(
+        `Client payment is already ${clientPayment.status}.`,
+        409,
+        "INVALID_PAYMENT_TRANSITION"
+      );
+    }
+
+    for (const allocation of clientPayment.allocations) {
+      if (
+        allocation.kind !== "payment" ||
+        !ACTIVE_ALLOCATION_STATUSES.includes(allocation.status)
+      ) {
+        continue;
+      }
+      await changePaymentStatusTx(tx, {
+        orgId: params.orgId,
+        paymentId: allocation.id,
+        status: allocation.status === "pending" ? "failed" : "reversed",
+        reason: params.reason ?? "Client payment reversed",
+        changedById: params.changedById,
+      });
+    }
+
+    await tx.clientPayment.update({
+      where: { id: clientPayment.id },
+      data: { status: "reversed" },
+    });
+
+    return withTotals(
+      await findClientPayment(tx, params.orgId, params.clientPaymentId)
+    );
+  });
+}
+
+/**
+ * Consume the client's unapplied credit against its open invoices, oldest
+ * credit first. Called when an invoice is issued. Returns the amount
+ * applied.
+ */
+export async function applyClientCredit(
+  tx: Tx,
+  params: { orgId: string; clientId: string; changedById: string | null }
+): Promise<Money> {
+  const credits = await tx.clientPayment.findMany({
+    where: {
+      orgId: params.orgId,
+      clientId: params.clientId,
+      status: "completed",
+    },
+    include: { allocations: true },
+    orderBy: { receivedAt: "asc" },
+  });
+
+  let applied = ZERO;
+  for (const credit of credits) {
+    if (unappliedAmount(credit).lte(0)) continue;
+
+    const payments = await allocateInTx(tx, {
+      orgId: params.orgId,
+      clientPaymentId: credit.id,
+      changedById: params.changedById,
+    });
+    // No open invoice in this credit's currency; a later credit in
+    // another currency may still have one
+    if (!payments.length) continue;
+    applied = applied.plus(sumMoney(payments.map((p) => p.amount)));
+  }
+
+  return applied;
+}
+
+/**
+ * List client payments with their allocations and unapplied credit:
+ * unappliedByCurrency as received, totalUnapplied converted to the org's
+ * base currency (currencies without a rate are left out and listed in
+ * missingExchangeRates).
+ */
+export async function listClientPayments(params: {
+  orgId: string;
+  clientId?: string;
+  primaryCMId?: string;
+}) {
+  const clientPayments = await prisma.clientPayment.findMany({
+    where: {
+      orgId: params.orgId,
+      ...(params.clientId ? { clientId: params.clientId } : {}),
+      ...(params.primaryCMId
+        ? { client: { primaryCMId: params.primaryCMId } }
+        : {}),
+    },
+    include: clientPaymentInclude,
+    orderBy: { receivedAt: "desc" },
+  });
+
+  const rows = clientPayments.map(withTotals);
+  const converter = await loadRateConverter(params.orgId);
+  const unapplied = converter.total(
+    rows
+      .filter((r) => r.unappliedAmount.gt(0))
+      .map((r) => ({ amount: r.unappliedAmount, currency: r.currency }))
+  );
+
+  return {
+    clientPayments: rows,
+    currency: unapplied.baseCurrency,
+    totalUnapplied: unapplied.total,
+    unappliedByCurrency: unapplied.byCurrency,
+    missingExchangeRates: unapplied.missingRates,
+  };
+}
+
+export async function getClientPayment(orgId: string, id: string) {
+  return withTotals(await findClientPayment(prisma, orgId, id));
+}
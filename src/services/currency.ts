@@ -0,0 +1,109 @@
+// src/services/currency.ts
+import { decimal, money, MoneyInput } from "./money";
+
+/**
+ * Currency codes and locale-aware formatting.
+ *
+ * Each invoice is billed in one currency (the client's, else the org's
+ * currencyCode); the org's currencyCode is also its base currency for
+ * reporting (see services/exchangeRates.ts). The org's `locale` setting
+ * (billingRulesJson, e.g. "en-US", "de-DE") decides how amounts look in
+ * PDFs, emails and CSV exports.
+ */
+
+export const DEFAULT_LOCALE = "en-US";
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z]{3}$/.test(value);
+}
+
+/**
+ * "usd " → "USD"; null when it isn't a three-letter code.
+ */
+export function normalizeCurrencyCode(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return isCurrencyCode(code) ? code : null;
+}
+
+export function isLocale(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([value]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function numberFormat(
+  locale: string | null | undefined,
+  options: Intl.NumberFormatOptions
+): Intl.NumberFormat {
+  const resolved = isLocale(locale) ? locale : DEFAULT_LOCALE;
+  try {
+    return new Intl.NumberFormat(resolved, options);
+  } catch {
+    // Unknown currency code: fall back to a plain number
+    return new Intl.NumberFormat(resolved, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
+}
+
+/**
+ * "$1,234.50", "1.234,50 €", "¥1,235" – for PDFs and emails.
+ */
+export function formatCurrency(
+  value: MoneyInput,
+  currency: string,
+  locale?: string | null
+): string {
+  const amount = money(value).toNumber();
+  const format = numberFormat(locale, { style: "currency", currency });
+  return format.resolvedOptions().style === "currency"
+    ? format.format(amount)
+    : `${currency} ${format.format(amount)}`;
+}
+
+/**
+ * "1234.50" / "1234,50" – the locale's decimal separator and the
+ * currency's decimals, without symbol or grouping, for CSV.
+ */
+export function formatAmount(
+  value: MoneyInput,
+  currency: string,
+  locale?: string | null
+): string {
+  const digits = numberFormat(locale, {
+    style: "currency",
+    currency,
+  }).resolvedOptions().maximumFractionDigits;
+
+  return numberFormat(locale, {
+    useGrouping: false,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(money(value).toNumber());
+}
+
+/**
+ * An exchange rate for CSV: up to 8 decimals, the locale's separator.
+ */
+export function formatRate(value: MoneyInput, locale?: string | null): string {
+  return numberFormat(locale, {
+    useGrouping: false,
+    maximumFractionDigits: 8,
+  }).format(decimal(value).toNumber());
+}
+
+/**
+ * CSV field separator for the locale: ";" where the decimal separator is a
+ * comma (what spreadsheets in those locales expect), "," otherwise.
+ */
+export function csvDelimiter(locale?: string | null): string {
+  const decimal = numberFormat(locale, {})
+    .formatToParts(1.5)
+    .find((part) => part.type === "decimal")?.value;
+  return decimal === "," ? ";" : ",";
+}
@@ -0,0 +1,129 @@
+// src/services/email.ts
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+/**
+ * Outbound email.
+ *
+ * Env:
+ * - EMAIL_TRANSPORT: "smtp" | "file" (unset = email disabled)
+ * - EMAIL_FROM: From address, e.g. "Acme Care <billing@acme.test>"
+ * - SMTP_HOST, SMTP_PORT, SMTP_SECURE ("true" for TLS on connect),
+ *   SMTP_USER, SMTP_PASS: for the smtp transport. A local catcher such as
+ *   MailHog or smtp4dev works with just SMTP_HOST/SMTP_PORT.
+ * - EMAIL_FILE_DIR: where the file transport writes one .eml per message
+ *   (default ./tmp/emails)
+ *
+ * Tests and scripts can swap the transport with setEmailTransport.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+function defaultFrom(): string {
+  return process.env.EMAIL_FROM || "ElderFlow <no-reply@elderflow.local>";
+}
+
+/**
+ * SMTP via nodemailer.
+ */
+export function createSmtpTransport(): EmailTransport {
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: defaultFrom(),
+        ...message,
+      });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Writes each message as an .eml file instead of sending it.
+ */
+export function createFileTransport(
+  dir = process.env.EMAIL_FILE_DIR || path.join("tmp", "emails")
+): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: defaultFrom(),
+        ...message,
+      });
+
+      await fs.mkdir(dir, { recursive: true });
+      const safeId = info.messageId.replace(/[^a-zA-Z0-9.@-]/g, "");
+      await fs.writeFile(path.join(dir, `${safeId}.eml`), info.message);
+
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+let transport: EmailTransport | null | undefined;
+
+export function getEmailTransport(): EmailTransport | null {
+  if (transport !== undefined) return transport;
+
+  switch (process.env.EMAIL_TRANSPORT) {
+    case "smtp":
+      transport = createSmtpTransport();
+      break;
+    case "file":
+      transport = createFileTransport();
+      break;
+    default:
+      transport = null;
+  }
+  return transport;
+}
+
+/**
+ * Replace the configured transport (null disables email, undefined goes
+ * back to the env configuration).
+ */
+export function setEmailTransport(next: EmailTransport | null | undefined) {
+  transport = next;
+}
+
+export function isEmailEnabled(): boolean {
+  return getEmailTransport() !== null;
+}
@@ -0,0 +1,403 @@
+// src/services/exchangeRates.ts
+import { ExchangeRate, PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { normalizeCurrencyCode } from "./currency";
+import { Tx } from "./invoiceTotals";
+import { decimal, money, Money, MoneyInput, sumMoney } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Exchange rates to an org's base currency (Organization.currencyCode).
+ *
+ * A stored rate reads "1 EUR = 1.08 USD from 2026-10-01" and holds until a
+ * later rate for the same pair. An invoice's rate is fixed when it is
+ * issued (Invoice.exchangeRate) so reported figures for it don't move;
+ * drafts, and invoices issued before a rate existed, use the latest rate
+ * on or before the date being reported. A rate stored the other way round
+ * (1 USD = 0.92 EUR) is used inverted.
+ *
+ * Rates come from the admin API (/api/exchange-rates), a CSV/JSON upload
+ * through it, or a rates file (jobs/exchangeRates.ts).
+ */
+
+export type ExchangeRateSource = "manual" | "import" | "file";
+
+export interface ExchangeRateInput {
+  currency: string;
+  rate: MoneyInput;
+  // Defaults to the org's currencyCode
+  baseCurrency?: string;
+  // Defaults to today (UTC)
+  effectiveDate?: Date;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+export async function orgBaseCurrency(orgId: string): Promise<string> {
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { currencyCode: true },
+  });
+  return org?.currencyCode || "USD";
+}
+
+/**
+ * Units of baseCurrency per unit of currency on a date, or null when no
+ * rate is stored for the pair.
+ */
+export async function findExchangeRate(
+  tx: Tx,
+  params: {
+    orgId: string;
+    currency: string;
+    baseCurrency: string;
+    on?: Date;
+  }
+): Promise<Money | null> {
+  const { orgId, currency, baseCurrency } = params;
+  if (currency === baseCurrency) return decimal(1);
+
+  const on = params.on ?? new Date();
+
+  const direct = await tx.exchangeRate.findFirst({
+    where: { orgId, currency, baseCurrency, effectiveDate: { lte: on } },
+    orderBy: { effectiveDate: "desc" },
+  });
+  if (direct) return decimal(direct.rate);
+
+  const inverse = await tx.exchangeRate.findFirst({
+    where: {
+      orgId,
+      currency: baseCurrency,
+      baseCurrency: currency,
+      effectiveDate: { lte: on },
+    },
+    orderBy: { effectiveDate: "desc" },
+  });
+  if (inverse && !decimal(inverse.rate).isZero()) {
+    return decimal(1).dividedBy(inverse.rate).toDecimalPlaces(8);
+  }
+
+  return null;
+}
+
+export interface BaseCurrencyTotal {
+  baseCurrency: string;
+  // Converted amounts only; see missingRates
+  total: Money;
+  // Unconverted sums per original currency
+  byCurrency: Record<string, Money>;
+  // Currencies with no rate to the base, left out of total
+  missingRates: string[];
+}
+
+export interface ConvertibleAmount {
+  amount: MoneyInput;
+  currency: string;
+  // Date for the rate lookup (default now)
+  on?: Date;
+  // An invoice's fixed rate; used instead of a lookup when set
+  exchangeRate?: MoneyInput;
+}
+
+export interface RateConverter {
+  baseCurrency: string;
+  rateOn(currency: string, on?: Date): Money | null;
+  // Uses `exchangeRate` (an invoice's fixed rate) when given
+  convert(
+    amount: MoneyInput,
+    currency: string,
+    options?: { on?: Date; exchangeRate?: MoneyInput }
+  ): Money | null;
+  total(entries: ConvertibleAmount[]): BaseCurrencyTotal;
+}
+
+/**
+ * Loads the org's rates once for converting many amounts (dashboards,
+ * reports) without a query per amount.
+ */
+export async function loadRateConverter(
+  orgId: string,
+  baseCurrency?: string
+): Promise<RateConverter> {
+  const base = baseCurrency ?? (await orgBaseCurrency(orgId));
+
+  // Newest first, so the first match on or before a date is the one in force
+  const rates = await prisma.exchangeRate.findMany({
+    where: { orgId, OR: [{ baseCurrency: base }, { currency: base }] },
+    orderBy: { effectiveDate: "desc" },
+  });
+
+  const rateOn = (currency: string, on = new Date()): Money | null => {
+    if (currency === base) return decimal(1);
+
+    const direct = rates.find(
+      (r) =>
+        r.currency === currency &&
+        r.baseCurrency === base &&
+        r.effectiveDate <= on
+    );
+    if (direct) return decimal(direct.rate);
+
+    const inverse = rates.find(
+      (r) =>
+        r.currency === base &&
+        r.baseCurrency === currency &&
+        r.effectiveDate <= on
+    );
+    if (inverse && !decimal(inverse.rate).isZero()) {
+      return decimal(1).dividedBy(inverse.rate).toDecimalPlaces(8);
+    }
+    return null;
+  };
+
+  const convert: RateConverter["convert"] = (amount, currency, options) => {
+    const fixed = options?.exchangeRate;
+    const rate =
+      fixed !== null && fixed !== undefined
+        ? decimal(fixed)
+        : rateOn(currency, options?.on);
+    return rate ? money(decimal(amount).times(rate)) : null;
+  };
+
+  return {
+    baseCurrency: base,
+    rateOn,
+    convert,
+    total(entries) {
+      const converted: Money[] = [];
+      const byCurrency: Record<string, Money[]> = {};
+      const missing = new Set<string>();
+
+      for (const entry of entries) {
+        (byCurrency[entry.currency] ??= []).push(money(entry.amount));
+
+        const value = convert(entry.amount, entry.currency, entry);
+        if (value) converted.push(value);
+        else missing.add(entry.currency);
+      }
+
+      return {
+        baseCurrency: base,
+        total: sumMoney(converted),
+        byCurrency: Object.fromEntries(
+          Object.entries(byCurrency).map(([code, amounts]) => [
+            code,
+            sumMoney(amounts),
+          ])
+        ),
+        missingRates: [...missing].sort(),
+      };
+    },
+  };
+}
+
+/**
+ * Store rates for an org; a rate for the same pair and date is replaced.
+ * Throws INVALID_EXCHANGE_RATE (400) naming the first bad entry.
+ */
+export async function saveExchangeRates(params: {
+  orgId: string;
+  rates: ExchangeRateInput[];
+  source: ExchangeRateSource;
+  createdById: string | null;
+}): Promise<ExchangeRate[]> {
+  const base = await orgBaseCurrency(params.orgId);
+  const today = startOfUtcDay(new Date());
+
+  const rows = params.rates.map((input, i) => {
+    const currency = normalizeCurrencyCode(input.currency);
+    const baseCurrency = normalizeCurrencyCode(input.baseCurrency ?? base);
+    let rate: Money | null = null;
+    try {
+      rate = decimal(input.rate);
+    } catch {
+      rate = null;
+    }
+
+    const problem = !currency
+      ? `invalid currency "${input.currency}"`
+      : !baseCurrency
+      ? `invalid base currency "${input.baseCurrency}"`
+      : currency === baseCurrency
+      ? "currency and base currency are the same"
+      : !rate || !rate.isFinite() || rate.lte(0)
+      ? "rate must be a positive number"
+      : input.effectiveDate && Number.isNaN(input.effectiveDate.getTime())
+      ? "invalid effective date"
+      : null;
+
+    if (problem) {
+      throw new AppError(
+        `Exchange rate ${i + 1}: ${problem}.`,
+        400,
+        "INVALID_EXCHANGE_RATE"
+      );
+    }
+
+    return {
+      currency: currency!,
+      baseCurrency: baseCurrency!,
+      rate: rate!.toDecimalPlaces(8),
+      effectiveDate: input.effectiveDate
+        ? startOfUtcDay(input.effectiveDate)
+        : today,
+    };
+  });
+
+  // The same pair and date twice in one batch: the later entry wins
+  const unique = new Map(
+    rows.map((row) => [
+      `${row.currency}|${row.baseCurrency}|${row.effectiveDate.getTime()}`,
+      row,
+    ])
+  );
+
+  return prisma.$transaction((tx) =>
+    Promise.all(
+      [...unique.values()].map((row) =>
+        tx.exchangeRate.upsert({
+          where: {
+            orgId_currency_baseCurrency_effectiveDate: {
+              orgId: params.orgId,
+              currency: row.currency,
+              baseCurrency: row.baseCurrency,
+              effectiveDate: row.effectiveDate,
+            },
+          },
+          create: {
+            ...row,
+            orgId: params.orgId,
+            source: params.source,
+            createdById: params.createdById,
+          },
+          update: {
+            rate: row.rate,
+            source: params.source,
+            createdById: params.createdById,
+          },
+        })
+      )
+    )
+  );
+}
+
+/**
+ * Helper: split one CSV line (quotes allowed) on the delimiter.
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function invalidFile(message: string): AppError {
+  return new AppError(message, 400, "INVALID_RATES_FILE");
+}
+
+/**
+ * Parses a rates file.
+ * - csv: header row with currency and rate columns, optionally
+ *   effectiveDate and baseCurrency; "," or ";" separated
+ * - json: an array of { currency, rate, effectiveDate?, baseCurrency? }
+ */
+export function parseExchangeRateFile(
+  content: string,
+  format: "csv" | "json"
+): ExchangeRateInput[] {
+  const parseDate = (value: unknown, where: string) => {
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+    const date = new Date(String(value));
+    if (Number.isNaN(date.getTime())) {
+      throw invalidFile(`${where}: invalid effectiveDate "${value}".`);
+    }
+    return date;
+  };
+
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw invalidFile("Rates file is not valid JSON.");
+    }
+    if (!Array.isArray(data)) {
+      throw invalidFile("Rates file must be a JSON array.");
+    }
+
+    return data.map((row: any, i) => {
+      if (!row || typeof row !== "object") {
+        throw invalidFile(`Entry ${i + 1}: expected an object.`);
+      }
+      return {
+        currency: String(row.currency ?? ""),
+        rate: row.rate,
+        baseCurrency: row.baseCurrency ?? undefined,
+        effectiveDate: parseDate(row.effectiveDate, `Entry ${i + 1}`),
+      };
+    });
+  }
+
+  const lines = content
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter((l) => l.line);
+  if (!lines.length) throw invalidFile("Rates file is empty.");
+
+  const delimiter = lines[0].line.includes(";") ? ";" : ",";
+  const header = splitCsvLine(lines[0].line, delimiter).map((h) =>
+    h.toLowerCase()
+  );
+  const col = (name: string) => header.indexOf(name.toLowerCase());
+  const currencyCol = col("currency");
+  const rateCol = col("rate");
+  if (currencyCol < 0 || rateCol < 0) {
+    throw invalidFile("Rates file needs currency and rate columns.");
+  }
+  const dateCol = col("effectiveDate");
+  const baseCol = col("baseCurrency");
+
+  return lines.slice(1).map(({ line, number }) => {
+    const cells = splitCsvLine(line, delimiter);
+    // "1,08" in ";"-separated files
+    const rate = (cells[rateCol] ?? "").replace(",", ".");
+    return {
+      currency: cells[currencyCol] ?? "",
+      rate: rate === "" ? undefined : rate,
+      baseCurrency:
+        baseCol >= 0 && cells[baseCol] ? cells[baseCol] : undefined,
+      effectiveDate:
+        dateCol >= 0 ? parseDate(cells[dateCol], `Line ${number}`) : undefined,
+    };
+  });
+}
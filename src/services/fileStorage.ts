@@ -0,0 +1,81 @@
+// src/services/fileStorage.ts
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Stored files (invoice PDFs).
+ *
+ * Files are addressed by a key such as "invoices/<orgId>/<file>.pdf".
+ * Callers never overwrite a key: a new version gets a new key, so a stored
+ * file stays exactly as it was written.
+ *
+ * Env:
+ * - STORAGE_DRIVER: "local" (default). Object storage plugs in as another
+ *   FileStorage via setFileStorage.
+ * - STORAGE_DIR: root directory for the local driver (default ./storage)
+ */
+
+export interface FileStorage {
+  name: string;
+  put(key: string, content: Buffer, contentType?: string): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+}
+
+/**
+ * Files on local disk under `dir`.
+ */
+export function createLocalStorage(
+  dir = process.env.STORAGE_DIR || "storage"
+): FileStorage {
+  const root = path.resolve(dir);
+
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+    async put(key, content) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+  };
+}
+
+let storage: FileStorage | undefined;
+
+export function getFileStorage(): FileStorage {
+  if (storage) return storage;
+
+  const driver = process.env.STORAGE_DRIVER || "local";
+  switch (driver) {
+    case "local":
+      storage = createLocalStorage();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+  return storage;
+}
+
+/**
+ * Replace the configured storage (undefined goes back to the env
+ * configuration).
+ */
+export function setFileStorage(next: FileStorage | undefined) {
+  storage = next;
+}
@@ -0,0 +1,171 @@
+// src/services/invoiceBatch.ts
+import { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { buildInvoiceDraft, createDraftInvoice } from "./invoiceDrafts";
+import { sumMoney, Money } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Month-end batch: one draft invoice per client for a period.
+ *
+ * Each client goes through the same buildInvoiceDraft + createDraftInvoice
+ * path as POST /api/invoices/generate, so pricing is identical. Re-running
+ * is safe: activities already on a (non-void) invoice are excluded, so a
+ * client billed by an earlier run comes back as "skipped".
+ */
+
+export type BatchClientStatus = "created" | "skipped" | "failed";
+
+export interface BatchClientResult {
+  clientId: string;
+  clientName: string;
+  status: BatchClientStatus;
+  invoiceId?: string;
+  totalAmount?: Money;
+  itemCount?: number;
+  code?: string;
+  reason?: string;
+}
+
+export interface BatchResult {
+  periodStart: Date;
+  periodEnd: Date;
+  clientCount: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  totalAmount: Money;
+  results: BatchClientResult[];
+}
+
+const SKIP_REASONS: Record<string, string> = {
+  ACTIVITIES_ALREADY_INVOICED:
+    "All billable activities in this period are already invoiced.",
+  NO_ACTIVITIES: "No billable activities in this period.",
+  NO_BILLABLE_AMOUNTS:
+    "No billable activities produced any invoiceable amounts with the current rules.",
+};
+
+export async function generateInvoiceBatch(params: {
+  orgId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  // Optional filters; by default every active client in the org
+  clientIds?: string[];
+  primaryCMId?: string;
+  clientStatus?: string;
+}): Promise<BatchResult> {
+  const { orgId, periodStart, periodEnd } = params;
+
+  if (
+    Number.isNaN(periodStart.getTime()) ||
+    Number.isNaN(periodEnd.getTime()) ||
+    periodStart > periodEnd
+  ) {
+    throw new AppError("Invalid billing period", 400, "INVALID_PERIOD");
+  }
+
+  const where: Prisma.ClientWhereInput = {
+    orgId,
+    status: params.clientStatus ?? "active",
+  };
+  if (params.clientIds?.length) where.id = { in: params.clientIds };
+  if (params.primaryCMId) where.primaryCMId = params.primaryCMId;
+
+  const clients = await prisma.client.findMany({
+    where,
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  const results: BatchClientResult[] = [];
+
+  // One client at a time: each has its own transaction, and a failure
+  // for one client never rolls back the others.
+  for (const client of clients) {
+    const base = { clientId: client.id, clientName: client.name };
+
+    try {
+      const draft = await buildInvoiceDraft({
+        orgId,
+        clientId: client.id,
+        periodStart,
+        periodEnd,
+      });
+
+      // A retainer fee can make an invoice even without new activities
+      if (!draft.lines.length) {
+        const code = draft.alreadyInvoicedCount
+          ? "ACTIVITIES_ALREADY_INVOICED"
+          : draft.activityCount
+          ? "NO_BILLABLE_AMOUNTS"
+          : "NO_ACTIVITIES";
+
+        results.push({
+          ...base,
+          status: "skipped",
+          code,
+          reason: SKIP_REASONS[code],
+        });
+        continue;
+      }
+
+      const invoice = await createDraftInvoice(orgId, draft);
+
+      results.push({
+        ...base,
+        status: "created",
+        invoiceId: invoice.id,
+        totalAmount: invoice.totalAmount,
+        itemCount: invoice.items.length,
+      });
+    } catch (err) {
+      // A concurrent run billed this client first: same as already invoiced
+      if (
+        err instanceof AppError &&
+        err.code === "ACTIVITIES_ALREADY_INVOICED"
+      ) {
+        results.push({
+          ...base,
+          status: "skipped",
+          code: err.code,
+          reason: err.message,
+        });
+        continue;
+      }
+
+      if (err instanceof AppError) {
+        results.push({
+          ...base,
+          status: "failed",
+          code: err.code,
+          reason: err.message,
+        });
+        continue;
+      }
+
+      // Internal details stay in the log
+      console.error(`Error generating invoice for client ${client.id}:`, err);
+      results.push({
+        ...base,
+        status: "failed",
+        code: "INTERNAL_ERROR",
+        reason: "Failed to generate invoice",
+      });
+    }
+  }
+
+  const created = results.filter((r) => r.status === "created");
+
+  return {
+    periodStart,
+    periodEnd,
+    clientCount: clients.length,
+    created: created.length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    totalAmount: sumMoney(created.map((r) => r.totalAmount)),
+    results,
+  };
+}
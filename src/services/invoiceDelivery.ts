@@ -0,0 +1,279 @@
+// src/services/invoiceDelivery.ts
+import { InvoiceDelivery, PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { normalizeStoredOrgRules } from "./billingRules";
+import { formatCurrency } from "./currency";
+import { getEmailTransport } from "./email";
+import { displayInvoiceNumber } from "./invoiceNumbers";
+import { invoicePdfBuffer } from "./invoicePdf";
+import { invoiceBalance } from "./invoiceTotals";
+import { invoicePaymentLink } from "./stripePayments";
+
+const prisma = new PrismaClient();
+
+/**
+ * Invoice delivery by email.
+ *
+ * Every attempt is stored as an InvoiceDelivery row – sent, failed (the
+ * transport threw), or skipped (email off, no recipient) – so the invoice
+ * shows whether the family was actually reached. Sending never throws for
+ * delivery problems: approval must not fail because a mail server is down.
+ * Bounces arrive later through the email webhook and flip the row to
+ * "bounced".
+ */
+
+export const DELIVERY_STATUSES = [
+  "sent",
+  "failed",
+  "skipped",
+  "bounced",
+] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export type DeliveryTrigger = "approve" | "resend" | "reminder";
+
+function ymd(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : "—";
+}
+
+/**
+ * Email the invoice PDF (and a payment link when the invoice can be paid
+ * online) to the client's billing contact, or to `to` when given.
+ * Reminders pass their own subject and opening line.
+ */
+export async function sendInvoiceEmail(params: {
+  orgId: string;
+  invoiceId: string;
+  trigger: DeliveryTrigger;
+  to?: string | null;
+  subject?: string;
+  intro?: string;
+  sentById: string | null;
+}): Promise<InvoiceDelivery> {
+  const { orgId, invoiceId } = params;
+
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, orgId },
+    include: {
+      client: true,
+      payments: true,
+      creditNotes: true,
+      org: {
+        select: {
+          name: true,
+          currencyCode: true,
+          invoiceFooter: true,
+          billingRulesJson: true,
+        },
+      },
+    },
+  });
+
+  if (!invoice) {
+    throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  }
+
+  if (invoice.status === "draft" || invoice.status === "void") {
+    throw new AppError(
+      `Invoice is ${invoice.status}; only issued invoices can be emailed.`,
+      409,
+      "INVOICE_NOT_SENDABLE"
+    );
+  }
+
+  const invoiceNumber = displayInvoiceNumber(invoice);
+  const recipient = params.to || invoice.client.billingContactEmail || null;
+  const subject =
+    params.subject ?? `Invoice ${invoiceNumber} from ${invoice.org.name}`;
+  const transport = getEmailTransport();
+
+  const record = (data: {
+    status: DeliveryStatus;
+    messageId?: string;
+    paymentLinkUrl?: string | null;
+    error?: string;
+  }) =>
+    prisma.invoiceDelivery.create({
+      data: {
+        orgId,
+        invoiceId,
+        trigger: params.trigger,
+        recipient,
+        subject,
+        transport: transport?.name ?? null,
+        sentById: params.sentById,
+        status: data.status,
+        messageId: data.messageId ?? null,
+        paymentLinkUrl: data.paymentLinkUrl ?? null,
+        error: data.error ?? null,
+      },
+    });
+
+  if (!transport) {
+    return record({
+      status: "skipped",
+      error: "Email is not configured (EMAIL_TRANSPORT).",
+    });
+  }
+  if (!recipient) {
+    return record({
+      status: "skipped",
+      error: "Client has no billing contact email.",
+    });
+  }
+
+  const currency = invoice.currency || invoice.org.currencyCode || "USD";
+  const { locale } = normalizeStoredOrgRules(invoice.org.billingRulesJson);
+  const { balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+  const payable =
+    balance.gt(0) &&
+    (invoice.status === "sent" || invoice.status === "overdue");
+  const paymentLinkUrl = payable
+    ? invoicePaymentLink({ orgId, invoiceId })
+    : null;
+
+  const lines = [
+    `Hello ${invoice.client.billingContactName || invoice.client.name},`,
+    "",
+    params.intro ??
+      `Please find attached invoice ${invoiceNumber} from ${
+        invoice.org.name
+      } for ${ymd(invoice.periodStart)} to ${ymd(invoice.periodEnd)}.`,
+    "",
+    `Amount due: ${formatCurrency(
+      balance.gt(0) ? balance : 0,
+      currency,
+      locale
+    )}`,
+  ];
+  if (invoice.dueDate && payable) {
+    lines.push(`Due date: ${ymd(invoice.dueDate)}`);
+  }
+  if (paymentLinkUrl) {
+    lines.push("", `Pay online: ${paymentLinkUrl}`);
+  }
+  if (invoice.org.invoiceFooter) {
+    lines.push("", invoice.org.invoiceFooter);
+  }
+
+  try {
+    const pdf = await invoicePdfBuffer(orgId, invoiceId);
+
+    const { messageId } = await transport.send({
+      to: recipient,
+      subject,
+      text: lines.join("\n"),
+      attachments: pdf
+        ? [
+            {
+              filename: pdf.fileName,
+              content: pdf.content,
+              contentType: "application/pdf",
+            },
+          ]
+        : [],
+    });
+
+    return record({ status: "sent", messageId, paymentLinkUrl });
+  } catch (err) {
+    console.error(`Error emailing invoice ${invoiceId}:`, err);
+    return record({
+      status: "failed",
+      paymentLinkUrl,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Mark a delivery as bounced. Found by id (admin) or by the transport's
+ * message id (email webhook). Returns null when no delivery matches.
+ */
+export async function recordDeliveryBounce(params: {
+  orgId?: string;
+  invoiceId?: string;
+  deliveryId?: string;
+  messageId?: string;
+  reason?: string | null;
+  bouncedAt?: Date;
+}): Promise<InvoiceDelivery | null> {
+  if (!params.deliveryId && !params.messageId) return null;
+
+  const delivery = await prisma.invoiceDelivery.findFirst({
+    where: {
+      ...(params.orgId ? { orgId: params.orgId } : {}),
+      ...(params.invoiceId ? { invoiceId: params.invoiceId } : {}),
+      ...(params.deliveryId ? { id: params.deliveryId } : {}),
+      ...(params.messageId ? { messageId: params.messageId } : {}),
+    },
+  });
+  if (!delivery) return null;
+
+  if (delivery.status !== "sent" && delivery.status !== "bounced") {
+    throw new AppError(
+      `Delivery was ${delivery.status}; only sent emails can bounce.`,
+      409,
+      "DELIVERY_NOT_SENT"
+    );
+  }
+
+  return prisma.invoiceDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: "bounced",
+      bouncedAt: params.bouncedAt ?? new Date(),
+      error: params.reason ?? delivery.error,
+    },
+  });
+}
+
+/**
+ * Org of the delivery a provider message id belongs to (webhook log).
+ */
+export async function deliveryOrgId(
+  messageId: string
+): Promise<string | null> {
+  const delivery = await prisma.invoiceDelivery.findFirst({
+    where: { messageId },
+    select: { orgId: true },
+  });
+  return delivery?.orgId ?? null;
+}
+
+export interface EmailEvent {
+  type: string; // "bounce"; anything else is ignored
+  messageId: string;
+  reason?: string;
+  occurredAt?: string;
+}
+
+/**
+ * Apply an inbound email event (see POST /api/email/webhook).
+ */
+export async function handleEmailEvent(
+  event: EmailEvent
+): Promise<{ handled: boolean; detail?: string; deliveryId?: string }> {
+  if (event.type !== "bounce") {
+    return { handled: false, detail: `Ignored event ${event.type}.` };
+  }
+
+  const occurredAt = event.occurredAt ? new Date(event.occurredAt) : null;
+  const delivery = await recordDeliveryBounce({
+    messageId: event.messageId,
+    reason: event.reason ?? "Bounced",
+    bouncedAt:
+      occurredAt && !Number.isNaN(occurredAt.getTime())
+        ? occurredAt
+        : undefined,
+  });
+
+  if (!delivery) {
+    return { handled: false, detail: "No delivery with that message id." };
+  }
+  return { handled: true, deliveryId: delivery.id };
+}
@@ -0,0 +1,268 @@
+// src/services/invoiceDrafts.ts
+import { PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import {
+  getBillingContext,
+  priceActivity,
+  BillingContext,
+  PricedLine,
+} from "./billingRules";
+import { recomputeInvoiceTotal } from "./invoiceTotals";
+import { applyRetainerPlan } from "./retainers";
+import { sumMoney, Money } from "./money";
+
+const prisma = new PrismaClient();
+
+export interface DraftLine extends PricedLine {
+  activityDate: Date | null;
+  activitySource: string | null;
+  // Defaults to "activity"; retainer plans add "retainer" / "retainer_overage"
+  kind?: string;
+  retainerPlanId?: string | null;
+  servicePeriodStart?: Date | null;
+}
+
+// Item kinds (re)built from activities and plans; everything else is manual
+export const GENERATED_ITEM_KINDS = [
+  "activity",
+  "retainer",
+  "retainer_overage",
+] as const;
+
+export interface InvoiceDraft {
+  clientId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  billingContext: BillingContext;
+  activityCount: number;
+  // Billable activities in the period skipped because another invoice has them
+  alreadyInvoicedCount: number;
+  lines: DraftLine[];
+  totalAmount: Money;
+  retainerPlan: { id: string; name: string; cadence: string } | null;
+}
+
+/**
+ * Prices a client's billable activities for a period without writing anything.
+ * Used by invoice generation and the preview (dry-run) endpoint so both
+ * always produce the same numbers.
+ *
+ * Activities already referenced by an InvoiceItem (on a non-void invoice) are
+ * excluded, so the same visit can't land on two invoices. When regenerating a draft, pass its id as
+ * `excludeInvoiceId` so that draft's own items don't count as "invoiced".
+ * Clients with a retainer plan get fee/overage lines from applyRetainerPlan.
+ * The invoice is in `currency` when given, else the client's currency,
+ * else the org's.
+ */
+export async function buildInvoiceDraft(params: {
+  orgId: string;
+  clientId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  excludeInvoiceId?: string;
+  currency?: string;
+}): Promise<InvoiceDraft> {
+  const { orgId, clientId, periodStart, periodEnd, excludeInvoiceId } =
+    params;
+
+  if (
+    Number.isNaN(periodStart.getTime()) ||
+    Number.isNaN(periodEnd.getTime())
+  ) {
+    throw new AppError("Invalid billing period", 400, "INVALID_PERIOD");
+  }
+
+  // Load organization & client with rules
+  const [org, client] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: {
+        billingRulesJson: true,
+        currencyCode: true,
+      },
+    }),
+    prisma.client.findFirst({
+      where: {
+        id: clientId,
+        orgId,
+      },
+      select: {
+        id: true,
+        billingRulesJson: true,
+        currency: true,
+      },
+    }),
+  ]);
+
+  if (!client) {
+    throw new AppError("Client not found", 404, "CLIENT_NOT_FOUND");
+  }
+
+  const billingContext = getBillingContext(
+    client.billingRulesJson,
+    org?.billingRulesJson
+  );
+
+  const periodWhere = {
+    orgId,
+    clientId: client.id,
+    isBillable: true,
+    startTime: {
+      gte: periodStart,
+    },
+    endTime: {
+      lte: periodEnd,
+    },
+  };
+
+  // Items on voided invoices don't count, so voiding releases activities
+  const invoicedItemWhere = {
+    invoice: { status: { not: "void" } },
+    ...(excludeInvoiceId ? { invoiceId: { not: excludeInvoiceId } } : {}),
+  };
+
+  // Get billable, not-yet-invoiced activities in range, including service type
+  const [activities, alreadyInvoicedCount] = await Promise.all([
+    prisma.activity.findMany({
+      where: {
+        ...periodWhere,
+        invoiceItems: { none: invoicedItemWhere },
+      },
+      include: {
+        serviceType: true,
+      },
+      orderBy: { startTime: "asc" },
+    }),
+    prisma.activity.count({
+      where: {
+        ...periodWhere,
+        invoiceItems: { some: invoicedItemWhere },
+      },
+    }),
+  ]);
+
+  const activityLines: DraftLine[] = activities.flatMap((activity) =>
+    priceActivity(activity, billingContext).map((line) => ({
+      ...line,
+      activityDate: activity.startTime,
+      activitySource: activity.source,
+    }))
+  );
+
+  const { plan, lines } = await applyRetainerPlan({
+    orgId,
+    clientId: client.id,
+    periodStart,
+    periodEnd,
+    billingContext,
+    lines: activityLines,
+    excludeInvoiceId,
+  });
+
+  return {
+    clientId: client.id,
+    periodStart,
+    periodEnd,
+    currency:
+      params.currency || client.currency || org?.currencyCode || "USD",
+    billingContext,
+    activityCount: activities.length,
+    alreadyInvoicedCount,
+    lines,
+    totalAmount: sumMoney(lines.map((l) => l.amount)),
+    retainerPlan: plan
+      ? { id: plan.id, name: plan.name, cadence: plan.cadence }
+      : null,
+  };
+}
+
+/**
+ * Helper: InvoiceItem columns for a draft line.
+ */
+export function draftLineItemData(line: DraftLine) {
+  return {
+    kind: line.kind ?? "activity",
+    activityId: line.activityId,
+    retainerPlanId: line.retainerPlanId ?? null,
+    servicePeriodStart: line.servicePeriodStart ?? null,
+    description: line.description,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    amount: line.amount,
+  };
+}
+
+/**
+ * Writes a priced draft as a new "draft" invoice with its items.
+ *
+ * The client row is locked for the transaction and the activities are
+ * re-checked, so two concurrent runs for the same client can't both bill
+ * the same activity – the loser gets 409 ACTIVITIES_ALREADY_INVOICED.
+ */
+export async function createDraftInvoice(orgId: string, draft: InvoiceDraft) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Client" WHERE "id" = ${draft.clientId} FOR UPDATE`;
+
+    const activityIds = draft.lines
+      .map((line) => line.activityId)
+      .filter((id): id is string => !!id);
+
+    const taken = await tx.invoiceItem.count({
+      where: {
+        activityId: { in: activityIds },
+        invoice: { status: { not: "void" } },
+      },
+    });
+
+    const retainerCycles = draft.lines.filter(
+      (line) => line.kind === "retainer"
+    );
+    const cyclesTaken = retainerCycles.length
+      ? await tx.invoiceItem.count({
+          where: {
+            kind: "retainer",
+            invoice: { status: { not: "void" } },
+            OR: retainerCycles.map((line) => ({
+              retainerPlanId: line.retainerPlanId,
+              servicePeriodStart: line.servicePeriodStart,
+            })),
+          },
+        })
+      : 0;
+
+    if (taken > 0 || cyclesTaken > 0) {
+      throw new AppError(
+        "Some of these activities (or retainer cycles) were invoiced by another request.",
+        409,
+        "ACTIVITIES_ALREADY_INVOICED"
+      );
+    }
+
+    const invoice = await tx.invoice.create({
+      data: {
+        orgId,
+        clientId: draft.clientId,
+        periodStart: draft.periodStart,
+        periodEnd: draft.periodEnd,
+        status: "draft",
+        totalAmount: 0,
+        currency: draft.currency,
+        items: {
+          create: draft.lines.map(draftLineItemData),
+        },
+      },
+    });
+
+    // Total is derived from the items inside the same transaction
+    await recomputeInvoiceTotal(tx, invoice.id);
+
+    return tx.invoice.findUniqueOrThrow({
+      where: { id: invoice.id },
+      include: {
+        items: true,
+        client: true,
+      },
+    });
+  });
+}
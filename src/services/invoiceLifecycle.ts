@@ -0,0 +1,246 @@
+// src/services/invoiceLifecycle.ts
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { clearInvoiceSplit, snapshotInvoiceSplit } from "./billingSplits";
+import { findExchangeRate } from "./exchangeRates";
+import { nextInvoiceNumber } from "./invoiceNumbers";
+import { computeDueDate } from "./invoiceOverdue";
+import { invoiceBalance, Tx } from "./invoiceTotals";
+
+/**
+ * Invoice lifecycle (status state machine).
+ *
+ *   draft ──► sent ──► paid
+ *     │        │ ▲      │
+ *     │        ▼ │      ▼ (payment reversed)
+ *     │      overdue ◄──┘
+ *     ▼
+ *    void ◄── sent / overdue (no payments)
+ *
+ * Every status change must go through transitionInvoice so the guards run
+ * and the change is recorded in InvoiceStatusChange (who + when).
+ */
+
+export const INVOICE_STATUSES = [
+  "draft",
+  "sent",
+  "paid",
+  "overdue",
+  "void",
+] as const;
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+const TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ["sent", "void"],
+  sent: ["draft", "paid", "overdue", "void"],
+  overdue: ["sent", "paid", "void"],
+  // Only when a payment is reversed and a balance reopens
+  paid: ["sent", "overdue"],
+  void: [],
+};
+
+export function isInvoiceStatus(value: unknown): value is InvoiceStatus {
+  return (
+    typeof value === "string" &&
+    (INVOICE_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+export function canTransition(from: string, to: InvoiceStatus): boolean {
+  return isInvoiceStatus(from) && TRANSITIONS[from].includes(to);
+}
+
+export async function transitionInvoice(
+  tx: Tx,
+  params: {
+    orgId: string;
+    invoiceId: string;
+    to: InvoiceStatus;
+    // null when the system (a job or webhook) makes the change
+    changedById: string | null;
+    reason?: string | null;
+    // Extra fields to write in the same update (e.g. dueDate)
+    data?: Prisma.InvoiceUncheckedUpdateInput;
+  }
+) {
+  const { orgId, invoiceId, to, changedById, reason } = params;
+
+  // Serialize with line-item edits, which lock the row the same way
+  await tx.$queryRaw`SELECT "id" FROM "Invoice" WHERE "id" = ${invoiceId} FOR UPDATE`;
+
+  const invoice = await tx.invoice.findFirst({
+    where: { id: invoiceId, orgId },
+    include: {
+      payments: true,
+      creditNotes: true,
+      org: { select: { billingRulesJson: true, currencyCode: true } },
+      _count: { select: { items: true } },
+    },
+  });
+
+  if (!invoice) {
+    throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  }
+
+  const from = invoice.status;
+
+  if (!canTransition(from, to)) {
+    throw new AppError(
+      `Invoice cannot move from "${from}" to "${to}".`,
+      409,
+      "INVALID_STATUS_TRANSITION"
+    );
+  }
+
+  const { totalPaid, totalCredited, balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+
+  // --- Guards ---
+  if (to === "sent" && from === "draft" && invoice._count.items === 0) {
+    throw new AppError(
+      "Cannot send an invoice with no line items.",
+      409,
+      "INVOICE_EMPTY"
+    );
+  }
+
+  if (to === "paid" && balance.gt(0)) {
+    throw new AppError(
+      "Cannot mark an invoice paid while it has a balance.",
+      409,
+      "INVOICE_HAS_BALANCE"
+    );
+  }
+
+  if (from === "paid" && balance.lte(0)) {
+    throw new AppError(
+      "Invoice is fully paid; reverse a payment first.",
+      409,
+      "INVOICE_FULLY_PAID"
+    );
+  }
+
+  if (to === "draft" && (totalPaid.gt(0) || totalCredited.gt(0))) {
+    throw new AppError(
+      "Cannot return an invoice to draft after payments or credits.",
+      409,
+      "INVOICE_HAS_PAYMENTS"
+    );
+  }
+
+  if (to === "void" && totalPaid.gt(0)) {
+    throw new AppError(
+      "This invoice has payments. Issue a credit note instead of voiding it.",
+      409,
+      "INVOICE_HAS_PAYMENTS"
+    );
+  }
+
+  // --- Side-effect fields ---
+  const now = new Date();
+  const data: Prisma.InvoiceUncheckedUpdateInput = { status: to };
+
+  if (to === "sent" && !invoice.sentAt) data.sentAt = now;
+  // Payment terms start when the invoice is issued
+  if (to === "sent" && from === "draft") {
+    data.dueDate = computeDueDate(now, invoice.org.billingRulesJson);
+    // Reporting in the org currency uses the rate on the day it was issued
+    data.exchangeRate = await findExchangeRate(tx, {
+      orgId,
+      currency: invoice.currency,
+      baseCurrency: invoice.org.currencyCode || "USD",
+      on: now,
+    });
+  }
+  // First approval claims the next number; a draft sent back keeps it
+  if (to === "sent" && !invoice.invoiceNumber) {
+    Object.assign(data, await nextInvoiceNumber(tx, orgId));
+  }
+  if (to === "draft") {
+    data.sentAt = null;
+    data.dueDate = null;
+    data.exchangeRate = null;
+  }
+  if (to === "paid") data.paidAt = invoice.paidAt ?? now;
+  if (from === "paid") data.paidAt = null;
+  if (to === "void") {
+    data.voidedAt = now;
+    data.voidReason = reason ?? null;
+  }
+
+  const updated = await tx.invoice.update({
+    where: { id: invoice.id },
+    data: { ...data, ...(params.data ?? {}) },
+  });
+
+  // Split between responsible parties is fixed when the invoice is issued
+  if (to === "sent" && from === "draft") {
+    await snapshotInvoiceSplit(tx, invoice.id);
+  }
+  if (to === "draft") {
+    await clearInvoiceSplit(tx, invoice.id);
+  }
+
+  await tx.invoiceStatusChange.create({
+    data: {
+      orgId,
+      invoiceId: invoice.id,
+      fromStatus: from,
+      toStatus: to,
+      changedById,
+      reason: reason ?? null,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * After payments or credits change, move the invoice to "paid" when the
+ * balance is cleared, or reopen a paid invoice when a balance reappears
+ * (as "overdue" if its due date has passed).
+ * Returns the new status (unchanged if no transition was needed).
+ */
+export async function syncPaymentStatus(
+  tx: Tx,
+  params: {
+    orgId: string;
+    invoiceId: string;
+    changedById: string | null;
+    reason?: string;
+  }
+): Promise<string> {
+  const invoice = await tx.invoice.findFirst({
+    where: { id: params.invoiceId, orgId: params.orgId },
+    include: { payments: true, creditNotes: true },
+  });
+
+  if (!invoice) {
+    throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  }
+
+  const { balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+
+  let to: InvoiceStatus | null = null;
+
+  const isOpen = invoice.status === "sent" || invoice.status === "overdue";
+
+  if (balance.lte(0) && isOpen) {
+    to = "paid";
+  } else if (balance.gt(0) && invoice.status === "paid") {
+    to = invoice.dueDate && invoice.dueDate < new Date() ? "overdue" : "sent";
+  }
+
+  if (!to) return invoice.status;
+
+  await transitionInvoice(tx, { ...params, to });
+  return to;
+}
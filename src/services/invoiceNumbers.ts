@@ -0,0 +1,52 @@
+// src/services/invoiceNumbers.ts
+import { Tx } from "./invoiceTotals";
+
+/**
+ * Per-org sequential invoice numbers ("INV-00042").
+ *
+ * The counter lives on Organization.nextInvoiceNumber. Incrementing it
+ * inside the approval transaction row-locks the organization, so
+ * concurrent approvals queue up, and a rolled-back approval also rolls
+ * back the increment – no duplicates and no gaps.
+ */
+
+const NUMBER_PAD = 5;
+
+export function formatInvoiceNumber(
+  prefix: string | null | undefined,
+  sequence: number
+): string {
+  return `${prefix ?? ""}${String(sequence).padStart(NUMBER_PAD, "0")}`;
+}
+
+/**
+ * Claim the next number for the org. Call inside the transaction that
+ * approves the invoice.
+ */
+export async function nextInvoiceNumber(
+  tx: Tx,
+  orgId: string
+): Promise<{ invoiceSequence: number; invoiceNumber: string }> {
+  const org = await tx.organization.update({
+    where: { id: orgId },
+    data: { nextInvoiceNumber: { increment: 1 } },
+    select: { nextInvoiceNumber: true, invoicePrefix: true },
+  });
+
+  const invoiceSequence = org.nextInvoiceNumber - 1;
+
+  return {
+    invoiceSequence,
+    invoiceNumber: formatInvoiceNumber(org.invoicePrefix, invoiceSequence),
+  };
+}
+
+/**
+ * Helper: number to show on PDFs / exports. Drafts have no number yet.
+ */
+export function displayInvoiceNumber(invoice: {
+  id: string;
+  invoiceNumber: string | null;
+}): string {
+  return invoice.invoiceNumber ?? `DRAFT-${invoice.id.slice(0, 8)}`;
+}
@@ -0,0 +1,57 @@
+// src/services/invoiceOverdue.ts
+import { Prisma } from "@prisma/client";
+import { normalizeStoredOrgRules } from "./billingRules";
+import { decimal, money, Money } from "./money";
+
+/**
+ * Payment terms + overdue detection.
+ *
+ * An invoice gets dueDate = sentAt + org paymentTermsDays when it is sent.
+ * Once the due date passes, the overdue job (src/jobs/overdueInvoices.ts)
+ * moves it to "overdue" and, when the org sets lateFeePercent, adds a
+ * one-off late fee line item.
+ */
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function paymentTermsDays(orgRules: unknown): number {
+  return (
+    normalizeStoredOrgRules(orgRules).paymentTermsDays ??
+    DEFAULT_PAYMENT_TERMS_DAYS
+  );
+}
+
+export function computeDueDate(sentAt: Date, orgRules: unknown): Date {
+  return new Date(sentAt.getTime() + paymentTermsDays(orgRules) * DAY_MS);
+}
+
+/**
+ * Prisma filter for invoices that are past due as of `asOf`.
+ * Includes "sent" invoices the sweep hasn't reached yet, so dashboards
+ * never lag behind the job.
+ */
+export function overdueInvoiceWhere(
+  orgId: string,
+  asOf: Date = new Date()
+): Prisma.InvoiceWhereInput {
+  return {
+    orgId,
+    OR: [
+      { status: "overdue" },
+      { status: "sent", dueDate: { lt: asOf } },
+    ],
+  };
+}
+
+/**
+ * Helper: late fee for an open balance, or null when the org charges none.
+ */
+export function lateFeeAmount(balance: Money, orgRules: unknown): Money | null {
+  const percent = normalizeStoredOrgRules(orgRules).lateFeePercent;
+  if (!percent || balance.lte(0)) return null;
+
+  const fee = money(balance.times(decimal(percent)).dividedBy(100));
+  return fee.gt(0) ? fee : null;
+}
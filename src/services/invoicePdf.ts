@@ -0,0 +1,534 @@
+// src/services/invoicePdf.ts
+import PDFDocument from "pdfkit";
+import { Invoice, Prisma, PrismaClient } from "@prisma/client";
+import { describeInvoiceSplit } from "./billingSplits";
+import { formatCurrency } from "./currency";
+import { getFileStorage } from "./fileStorage";
+import { displayInvoiceNumber } from "./invoiceNumbers";
+import { invoiceBalance } from "./invoiceTotals";
+import { money, Money, MoneyInput, sumMoney } from "./money";
+import {
+  DocumentTemplate,
+  loadDocumentTemplate,
+  PAGE_LEFT,
+  qrCodeImage,
+  renderDocumentFooter,
+  renderDocumentHeader,
+  renderRemittance,
+  renderSectionTitle,
+  renderTableHeader,
+  renderTableRow,
+  TableColumn,
+} from "./pdfTemplate";
+import { invoicePaymentLink } from "./stripePayments";
+
+const prisma = new PrismaClient();
+
+const invoicePdfInclude = {
+  client: true,
+  items: {
+    include: {
+      // Date and care manager for the itemized layout
+      activity: {
+        select: { startTime: true, cm: { select: { name: true } } },
+      },
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+  payments: {
+    orderBy: {
+      paidAt: "asc" as const,
+    },
+  },
+  creditNotes: true,
+} satisfies Prisma.InvoiceInclude;
+
+export type InvoiceForPdf = Prisma.InvoiceGetPayload<{
+  include: typeof invoicePdfInclude;
+}>;
+
+type InvoicePdfItem = InvoiceForPdf["items"][number];
+
+export interface InvoicePdfData {
+  invoice: InvoiceForPdf;
+  template: DocumentTemplate;
+  split: Awaited<ReturnType<typeof describeInvoiceSplit>>;
+  // Online payment link QR code, when the template asks for one and the
+  // invoice can be paid
+  paymentQr: Buffer | null;
+}
+
+/**
+ * Everything the invoice PDF shows, or null when the invoice isn't in the
+ * org.
+ */
+export async function loadInvoicePdfData(
+  orgId: string,
+  invoiceId: string
+): Promise<InvoicePdfData | null> {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, orgId },
+    include: invoicePdfInclude,
+  });
+
+  if (!invoice) return null;
+
+  const template = await loadDocumentTemplate(orgId);
+  const split = await describeInvoiceSplit(invoice);
+
+  const { balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+  const payable =
+    balance.gt(0) &&
+    (invoice.status === "sent" || invoice.status === "overdue");
+  const paymentQr =
+    template.paymentQrCode && payable
+      ? await qrCodeImage(invoicePaymentLink({ orgId, invoiceId }))
+      : null;
+
+  return { invoice, template, split, paymentQr };
+}
+
+export function invoicePdfFileName(invoice: {
+  id: string;
+  invoiceNumber: string | null;
+}): string {
+  return `invoice-${displayInvoiceNumber(invoice)}.pdf`;
+}
+
+function ymd(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : "—";
+}
+
+/**
+ * Helper: one row per line with its activity date and care manager,
+ * activities first in date order, then other charges.
+ */
+function renderItemizedLines(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  items: InvoicePdfItem[],
+  amount: (value: MoneyInput) => string
+) {
+  const columns: TableColumn[] = [
+    { label: "Date", x: 50, width: 55 },
+    { label: "Care manager", x: 110, width: 90 },
+    { label: "Description", x: 205, width: 135 },
+    { label: "Hours", x: 345, width: 45 },
+    { label: "Rate", x: 395, width: 70 },
+    { label: "Amount", x: 470, width: 80 },
+  ];
+
+  const sorted = [...items].sort((a, b) => {
+    const aTime = a.activity?.startTime.getTime() ?? Infinity;
+    const bTime = b.activity?.startTime.getTime() ?? Infinity;
+    return aTime - bTime;
+  });
+
+  doc.fontSize(9);
+  let y = renderTableHeader(doc, template, columns, doc.y);
+
+  for (const item of sorted) {
+    const date = item.activity?.startTime ?? item.servicePeriodStart;
+    y = renderTableRow(
+      doc,
+      columns,
+      [
+        date ? ymd(date) : null,
+        item.activity?.cm.name ?? null,
+        item.description,
+        item.quantity.toFixed(2),
+        amount(item.unitPrice),
+        amount(item.amount),
+      ],
+      y
+    );
+  }
+
+  doc.fontSize(10);
+  doc.x = PAGE_LEFT;
+  doc.y = y;
+}
+
+/**
+ * Helper: lines grouped by service (same kind, description and rate) with
+ * quantities and amounts added up.
+ */
+function renderSummaryLines(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  items: InvoicePdfItem[],
+  amount: (value: MoneyInput) => string
+) {
+  const columns: TableColumn[] = [
+    { label: "Service", x: 50, width: 285 },
+    { label: "Qty", x: 345, width: 45 },
+    { label: "Rate", x: 395, width: 70 },
+    { label: "Amount", x: 470, width: 80 },
+  ];
+
+  const groups = new Map<
+    string,
+    {
+      description: string;
+      unitPrice: Money;
+      quantity: number;
+      amounts: Money[];
+    }
+  >();
+  for (const item of items) {
+    const key = [item.kind, item.description, item.unitPrice.toString()].join(
+      "|"
+    );
+    const group = groups.get(key) ?? {
+      description: item.description,
+      unitPrice: money(item.unitPrice),
+      quantity: 0,
+      amounts: [],
+    };
+    group.quantity += item.quantity;
+    group.amounts.push(money(item.amount));
+    groups.set(key, group);
+  }
+
+  let y = renderTableHeader(doc, template, columns, doc.y);
+
+  for (const group of groups.values()) {
+    y = renderTableRow(
+      doc,
+      columns,
+      [
+        group.description,
+        group.quantity.toFixed(2),
+        amount(group.unitPrice),
+        amount(sumMoney(group.amounts)),
+      ],
+      y
+    );
+  }
+
+  doc.x = PAGE_LEFT;
+  doc.y = y;
+}
+
+/**
+ * Renders an invoice onto a PDFKit document (caller pipes and ends it),
+ * using the org's document template (branding, layout, remittance).
+ */
+export function renderInvoicePdf(
+  doc: PDFKit.PDFDocument,
+  { invoice, template, split, paymentQr }: InvoicePdfData
+) {
+  // Amounts are in the invoice's currency, formatted for the org's locale
+  const currencyCode =
+    invoice.currency || template.branding.currencyCode || "USD";
+  const amount = (value: MoneyInput) =>
+    formatCurrency(value, currencyCode, template.branding.locale);
+
+  const invoiceNumberDisplay = displayInvoiceNumber(invoice);
+  const clientName = invoice.client?.name ?? "Unknown client";
+  const totalAmount = money(invoice.totalAmount);
+  const { totalPaid, totalCredited, balance } = invoiceBalance(
+    totalAmount,
+    invoice.payments ?? [],
+    invoice.creditNotes ?? []
+  );
+
+  // HEADER
+  renderDocumentHeader(doc, template, {
+    title: "INVOICE",
+    subtitle: "Invoice generated by ElderFlow",
+  });
+
+  // Invoice identity + meta
+  doc.text(`Invoice #: ${invoiceNumberDisplay}`);
+  doc.text(`Period: ${ymd(invoice.periodStart)} to ${ymd(invoice.periodEnd)}`);
+  if (invoice.dueDate) {
+    doc.text(`Due date: ${ymd(invoice.dueDate)}`);
+  }
+  doc.text(
+    `Status: ${
+      (invoice.status || "").toString().toUpperCase() || "UNKNOWN"
+    }`
+  );
+  doc.moveDown(0.5);
+
+  // Client / billing info
+  doc.text(`Client: ${clientName}`);
+  if (invoice.client?.billingContactName) {
+    doc.text(`Billing contact: ${invoice.client.billingContactName}`);
+  }
+  if (invoice.client?.billingContactEmail) {
+    doc.text(`Billing email: ${invoice.client.billingContactEmail}`);
+  }
+  if (invoice.client?.billingContactPhone) {
+    doc.text(`Billing phone: ${invoice.client.billingContactPhone}`);
+  }
+
+  doc.moveDown(1);
+
+  // LINE ITEMS TABLE
+  renderSectionTitle(doc, template, "Line items");
+
+  if (!invoice.items.length) {
+    doc.text("No line items on this invoice.");
+  } else if (template.layout === "summary") {
+    renderSummaryLines(doc, template, invoice.items, amount);
+  } else {
+    renderItemizedLines(doc, template, invoice.items, amount);
+  }
+
+  // TOTALS SECTION
+  doc.moveDown(1);
+  renderSectionTitle(doc, template, "Totals");
+
+  doc.text(`Total amount: ${amount(totalAmount)}`);
+  doc.text(`Total paid:   ${amount(totalPaid)}`);
+  if (totalCredited.gt(0)) {
+    doc.text(`Credited:     ${amount(totalCredited)}`);
+  }
+  doc.font("Helvetica-Bold").text(`Balance due:  ${amount(balance)}`);
+  doc.font("Helvetica");
+
+  doc.moveDown(1);
+
+  // SPLIT SUMMARY (multi-party billing)
+  if (split) {
+    renderSectionTitle(
+      doc,
+      template,
+      split.provisional ? "Billing split (provisional)" : "Billing split"
+    );
+
+    split.parties.forEach((party) => {
+      const terms = party.fixedAmount
+        ? `fixed ${amount(party.fixedAmount)}`
+        : party.sharePercent
+        ? `${party.sharePercent.toString()}%`
+        : "remainder";
+
+      doc.text(
+        `${party.name} (${terms}): ${amount(party.amount)} – paid ${amount(
+          party.paid
+        )} – balance ${amount(party.balance)}`
+      );
+    });
+
+    doc.moveDown(1);
+  }
+
+  // PAYMENTS SECTION
+  renderSectionTitle(doc, template, "Payments");
+
+  if (!invoice.payments.length) {
+    doc.text("No payments recorded for this invoice.");
+  } else {
+    invoice.payments.forEach((p) => {
+      const paidDate = p.paidAt
+        ? new Date(p.paidAt).toLocaleString()
+        : "N/A";
+
+      const refText =
+        p.reference && p.reference.trim().length > 0
+          ? ` – Ref: ${p.reference}`
+          : "";
+
+      const kindText = p.kind === "refund" ? "Refund – " : "";
+      const reasonText = p.reason ? ` (${p.reason})` : "";
+
+      doc.text(
+        `${paidDate} – ${kindText}${p.method} – ${amount(p.amount)} – ${
+          p.status
+        }${reasonText}${refText}`
+      );
+    });
+  }
+
+  doc.moveDown(1);
+
+  // REMITTANCE (instructions, payment QR code)
+  renderRemittance(doc, template, {
+    reference: invoice.invoiceNumber
+      ? `invoice ${invoice.invoiceNumber}`
+      : undefined,
+    paymentQr,
+  });
+
+  // FOOTER
+  renderDocumentFooter(
+    doc,
+    template,
+    "This invoice is for informational purposes only. Refer to ElderFlow for the latest status and details."
+  );
+}
+
+/**
+ * Helper: render a PDF into memory (email attachments, stored copies).
+ */
+export function pdfToBuffer(
+  render: (doc: PDFKit.PDFDocument) => void
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    render(doc);
+    doc.end();
+  });
+}
+
+/**
+ * Stored copies.
+ *
+ * An invoice's PDF is rendered once when it is issued and kept in file
+ * storage, so the document a family received doesn't change when branding
+ * or footer text does later. Drafts render live until an admin stores a
+ * copy explicitly (POST /api/invoices/:id/pdf/regenerate). The copy also
+ * shows status, payments and balance, so it is rendered again on the next
+ * download after any of those change. Every render gets a new storage key;
+ * earlier copies are left in place.
+ */
+
+// Stable download path recorded as Invoice.pdfUrl
+export function invoicePdfPath(invoiceId: string): string {
+  return `/api/invoices/${invoiceId}/pdf`;
+}
+
+/**
+ * True when an issued invoice has no copy from its latest issue (never
+ * stored, or stored before it went back to draft and was re-approved) or
+ * the copy predates its late fee (the overdue sweep adds a line) or the
+ * invoice's latest activity (see invoiceActivityAt), when given.
+ */
+export function storedPdfOutdated(invoice: {
+  status: string;
+  sentAt: Date | null;
+  lateFeeAppliedAt: Date | null;
+  pdfGeneratedAt: Date | null;
+  activityAt?: Date | null;
+}): boolean {
+  if (invoice.status === "draft") return false;
+  if (!invoice.pdfGeneratedAt) return true;
+  return [invoice.sentAt, invoice.lateFeeAppliedAt, invoice.activityAt].some(
+    (changedAt) => !!changedAt && invoice.pdfGeneratedAt! < changedAt
+  );
+}
+
+/**
+ * Latest change to what the PDF shows besides its lines: status, payments
+ * and refunds (recorded or changing status), credit notes and the billing
+ * split. Null when there has been none.
+ */
+async function invoiceActivityAt(
+  invoiceId: string
+): Promise<Date | null> {
+  const [payments, creditNotes, statusChanges, shares] = await Promise.all([
+    prisma.payment.aggregate({
+      where: { invoiceId },
+      _max: { createdAt: true, statusChangedAt: true },
+    }),
+    prisma.creditNote.aggregate({
+      where: { invoiceId },
+      _max: { updatedAt: true },
+    }),
+    prisma.invoiceStatusChange.aggregate({
+      where: { invoiceId },
+      _max: { createdAt: true },
+    }),
+    prisma.invoicePartyShare.aggregate({
+      where: { invoiceId },
+      _max: { updatedAt: true },
+    }),
+  ]);
+
+  const times = [
+    payments._max.createdAt,
+    payments._max.statusChangedAt,
+    creditNotes._max.updatedAt,
+    statusChanges._max.createdAt,
+    shares._max.updatedAt,
+  ].filter((time): time is Date => !!time);
+  if (!times.length) return null;
+  return new Date(Math.max(...times.map((time) => time.getTime())));
+}
+
+/**
+ * Render the invoice as it stands now, store the copy and record it on the
+ * invoice. Returns the updated invoice with the PDF, or null when the
+ * invoice isn't in the org.
+ */
+export async function storeInvoicePdf(
+  orgId: string,
+  invoiceId: string
+): Promise<{ invoice: Invoice; fileName: string; content: Buffer } | null> {
+  // Taken before loading, so a change made while rendering still makes
+  // this copy outdated
+  const generatedAt = new Date();
+  const data = await loadInvoicePdfData(orgId, invoiceId);
+  if (!data) return null;
+
+  const content = await pdfToBuffer((doc) => renderInvoicePdf(doc, data));
+  const key = `invoices/${orgId}/${invoiceId}-${generatedAt.getTime()}.pdf`;
+
+  await getFileStorage().put(key, content, "application/pdf");
+
+  const invoice = await prisma.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      pdfStorageKey: key,
+      pdfGeneratedAt: generatedAt,
+      pdfUrl: invoicePdfPath(invoiceId),
+    },
+  });
+
+  return { invoice, fileName: invoicePdfFileName(data.invoice), content };
+}
+
+/**
+ * The invoice PDF as a Buffer, or null when the invoice isn't in the org.
+ * Serves the stored copy when there is one; an issued invoice without a
+ * current copy (e.g. issued before copies were kept, or paid or credited
+ * since) is stored now.
+ */
+export async function invoicePdfBuffer(
+  orgId: string,
+  invoiceId: string
+): Promise<{ fileName: string; content: Buffer } | null> {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, orgId },
+  });
+  if (!invoice) return null;
+
+  const activityAt = invoice.pdfStorageKey
+    ? await invoiceActivityAt(invoice.id)
+    : null;
+  if (
+    invoice.pdfStorageKey &&
+    !storedPdfOutdated({ ...invoice, activityAt })
+  ) {
+    const content = await getFileStorage().get(invoice.pdfStorageKey);
+    if (content) {
+      return { fileName: invoicePdfFileName(invoice), content };
+    }
+    console.error(
+      `Stored PDF ${invoice.pdfStorageKey} for invoice ${invoice.id} is missing; rendering a new copy`
+    );
+  }
+
+  if (invoice.status !== "draft" || invoice.pdfStorageKey) {
+    return storeInvoicePdf(orgId, invoiceId);
+  }
+
+  const data = await loadInvoicePdfData(orgId, invoiceId);
+  if (!data) return null;
+
+  const content = await pdfToBuffer((doc) => renderInvoicePdf(doc, data));
+  return { fileName: invoicePdfFileName(data.invoice), content };
+}
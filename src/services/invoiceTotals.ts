@@ -0,0 +1,95 @@
+// src/services/invoiceTotals.ts
+import { Prisma, PrismaClient } from "@prisma/client";
+import { money, sumMoney, Money, MoneyInput } from "./money";
+
+const prisma = new PrismaClient();
+
+export type Tx = Prisma.TransactionClient;
+
+/**
+ * Recomputes Invoice.totalAmount from its items.
+ * Call inside the same transaction that changed the items.
+ */
+export async function recomputeInvoiceTotal(tx: Tx, invoiceId: string) {
+  const agg = await tx.invoiceItem.aggregate({
+    where: { invoiceId },
+    _sum: { amount: true },
+  });
+
+  return tx.invoice.update({
+    where: { id: invoiceId },
+    data: { totalAmount: money(agg._sum.amount) },
+  });
+}
+
+/**
+ * Helper: total paid (completed payments only), total credited (issued
+ * credit notes) and remaining balance.
+ */
+export function invoiceBalance(
+  totalAmount: MoneyInput,
+  payments: { amount: MoneyInput; status: string }[],
+  creditNotes: { amount: MoneyInput; status: string }[] = []
+): { totalPaid: Money; totalCredited: Money; balance: Money } {
+  const totalPaid = sumMoney(
+    payments.filter((p) => p.status === "completed").map((p) => p.amount)
+  );
+  const totalCredited = sumMoney(
+    creditNotes.filter((c) => c.status === "issued").map((c) => c.amount)
+  );
+
+  return {
+    totalPaid,
+    totalCredited,
+    balance: money(totalAmount).minus(totalPaid).minus(totalCredited),
+  };
+}
+
+export interface InvoiceTotalMismatch {
+  invoiceId: string;
+  clientId: string;
+  status: string;
+  storedTotal: Money;
+  itemsTotal: Money;
+  difference: Money;
+}
+
+/**
+ * Invariant check: every invoice's stored total equals the sum of its items.
+ * Returns the invoices that break it.
+ */
+export async function findInvoiceTotalMismatches(
+  orgId: string
+): Promise<{ checked: number; mismatches: InvoiceTotalMismatch[] }> {
+  const invoices = await prisma.invoice.findMany({
+    where: { orgId },
+    select: {
+      id: true,
+      clientId: true,
+      status: true,
+      totalAmount: true,
+      items: { select: { amount: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const mismatches: InvoiceTotalMismatch[] = [];
+
+  for (const inv of invoices) {
+    const itemsTotal = sumMoney(inv.items.map((item) => item.amount));
+    const storedTotal = money(inv.totalAmount);
+
+    if (!itemsTotal.equals(storedTotal)) {
+      mismatches.push({
+        invoiceId: inv.id,
+        clientId: inv.clientId,
+        status: inv.status,
+        storedTotal,
+        itemsTotal,
+        difference: storedTotal.minus(itemsTotal),
+      });
+    }
+  }
+
+  return { checked: invoices.length, mismatches };
+}
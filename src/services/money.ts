@@ -0,0 +1,63 @@
+// src/services/money.ts
+import { Prisma } from "@prisma/client";
+
+/**
+ * Money helpers.
+ *
+ * All money columns are Postgres DECIMAL and come back from Prisma as
+ * Prisma.Decimal, so amounts are never subject to floating-point error.
+ * Do arithmetic through these helpers instead of plain numbers.
+ * API responses still carry amounts as JSON numbers, as they did before the
+ * columns were DECIMAL (see moneyJsonReplacer).
+ */
+
+export type Money = Prisma.Decimal;
+export type MoneyInput = Prisma.Decimal.Value | null | undefined;
+
+export const ZERO: Money = new Prisma.Decimal(0);
+
+/**
+ * Helper: exact decimal rounded to cents (half-up).
+ */
+export function money(value: MoneyInput): Money {
+  if (value === null || value === undefined || value === "") return ZERO;
+  return new Prisma.Decimal(value).toDecimalPlaces(
+    2,
+    Prisma.Decimal.ROUND_HALF_UP
+  );
+}
+
+/**
+ * Helper: exact decimal without rounding (rates, unit prices).
+ */
+export function decimal(value: MoneyInput): Money {
+  if (value === null || value === undefined || value === "") return ZERO;
+  return new Prisma.Decimal(value);
+}
+
+export function sumMoney(values: MoneyInput[]): Money {
+  return money(values.reduce<Money>((sum, v) => sum.plus(decimal(v)), ZERO));
+}
+
+/**
+ * Helper: "125.50" – fixed two decimals for PDFs and CSV.
+ */
+export function formatMoney(value: MoneyInput): string {
+  return money(value).toFixed(2);
+}
+
+/**
+ * JSON replacer for API responses (app "json replacer"): Decimals go out
+ * as numbers (125.5) rather than Decimal's default string ("125.5"), so
+ * money fields keep the shape existing API clients expect.
+ */
+export function moneyJsonReplacer(
+  this: any,
+  key: string,
+  value: unknown
+): unknown {
+  // `value` has already been through Decimal#toJSON; the holder has the
+  // original
+  const raw = this[key];
+  return Prisma.Decimal.isDecimal(raw) ? raw.toNumber() : value;
+}
@@ -0,0 +1,116 @@
+// src/services/orgBranding.ts
+import { PrismaClient } from "@prisma/client";
+import { normalizeStoredOrgRules } from "./billingRules";
+import { DEFAULT_LOCALE } from "./currency";
+
+const prisma = new PrismaClient();
+
+/**
+ * Org branding for generated documents (invoices, statements…).
+ *
+ * The Organization columns win; the org settings screen stores the same
+ * values in billingRulesJson (invoiceFooterText, brandColor, logoUrl,
+ * invoicePrefix), so those fill in whatever the columns leave empty.
+ */
+
+export const DEFAULT_BRAND_COLOR = "#111827"; // slate-900
+
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface OrgBranding {
+  name: string;
+  currencyCode: string;
+  invoicePrefix: string;
+  footer: string;
+  brandColor: string;
+  logoUrl: string | null;
+  taxId: string | null;
+  // Number formatting for documents (see services/currency.ts)
+  locale: string;
+}
+
+function isHexColor(value: string | null | undefined): value is string {
+  return !!value && /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim());
+}
+
+export async function loadOrgBranding(orgId: string): Promise<OrgBranding> {
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: {
+      name: true,
+      currencyCode: true,
+      invoicePrefix: true,
+      invoiceFooter: true,
+      brandColor: true,
+      logoUrl: true,
+      taxId: true,
+      billingRulesJson: true,
+    },
+  });
+
+  const settings = normalizeStoredOrgRules(org?.billingRulesJson);
+  const brandColor = org?.brandColor || settings.brandColor;
+
+  return {
+    name: org?.name ?? "ElderFlow",
+    currencyCode: org?.currencyCode || settings.currency || "USD",
+    invoicePrefix: org?.invoicePrefix || settings.invoicePrefix || "",
+    footer: org?.invoiceFooter || settings.invoiceFooterText || "",
+    brandColor: isHexColor(brandColor)
+      ? brandColor.trim()
+      : DEFAULT_BRAND_COLOR,
+    logoUrl: org?.logoUrl || settings.logoUrl || null,
+    taxId: org?.taxId || null,
+    locale: settings.locale || DEFAULT_LOCALE,
+  };
+}
+
+/**
+ * Fetch the org logo for embedding in a PDF (PNG/JPEG only – what PDFKit
+ * supports). Returns null on any failure: a missing logo must never stop
+ * a document from rendering.
+ */
+export async function loadLogoImage(
+  logoUrl: string | null
+): Promise<Buffer | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const dataUrl = /^data:image\/(png|jpe?g);base64,(.+)$/i.exec(logoUrl);
+    if (dataUrl) return Buffer.from(dataUrl[2], "base64");
+
+    if (!/^https?:\/\//i.test(logoUrl)) return null;
+
+    const response = await fetch(logoUrl, {
+      signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS),
+    });
+    const type = response.headers.get("content-type") ?? "";
+    if (!response.ok || !/image\/(png|jpe?g)/i.test(type)) return null;
+
+    const length = Number(response.headers.get("content-length"));
+    if (length > LOGO_MAX_BYTES || !response.body) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    // content-length can be missing or wrong: stop reading past the cap
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > LOGO_MAX_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  } catch (err) {
+    console.error("Error loading org logo:", err);
+    return null;
+  }
+}
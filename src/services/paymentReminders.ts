@@ -0,0 +1,90 @@
+// src/services/paymentReminders.ts
+import { normalizeStoredOrgRules } from "./billingRules";
+
+/**
+ * Payment reminders (dunning).
+ *
+ * The org's reminderScheduleDays lists steps relative to an invoice's due
+ * date: -3 = three days before, 0 = on the day, 7 = a week late. The
+ * reminder job (src/jobs/paymentReminders.ts) emails the billing contact
+ * once for the latest step that has come due. Steps missed while the job
+ * was off are skipped rather than sent in a burst, and steps that fall
+ * before the invoice was issued never go out.
+ *
+ * Reminders stop on their own once the invoice is no longer sent/overdue
+ * with a balance (paid, void), and are held while the client's reminders
+ * are paused.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A failed send is retried on later runs up to this many attempts
+export const MAX_REMINDER_ATTEMPTS = 3;
+
+export function reminderSchedule(orgRules: unknown): number[] {
+  const days = normalizeStoredOrgRules(orgRules).reminderScheduleDays ?? [];
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+export function reminderDate(dueDate: Date, offsetDays: number): Date {
+  return new Date(dueDate.getTime() + offsetDays * DAY_MS);
+}
+
+/**
+ * The latest schedule step that has come due for an invoice, or null.
+ */
+export function dueReminderStep(params: {
+  dueDate: Date;
+  sentAt: Date | null;
+  schedule: number[];
+  now: Date;
+}): { offsetDays: number; scheduledFor: Date } | null {
+  let step: { offsetDays: number; scheduledFor: Date } | null = null;
+
+  for (const offsetDays of params.schedule) {
+    const scheduledFor = reminderDate(params.dueDate, offsetDays);
+    if (scheduledFor > params.now) break;
+    // The invoice email itself covers anything up to issue
+    if (params.sentAt && scheduledFor <= params.sentAt) continue;
+    step = { offsetDays, scheduledFor };
+  }
+
+  return step;
+}
+
+/**
+ * Subject and opening line for a reminder step.
+ */
+export function reminderCopy(params: {
+  offsetDays: number;
+  invoiceNumber: string;
+  orgName: string;
+  dueDate: Date;
+}): { subject: string; intro: string } {
+  const { offsetDays, invoiceNumber, orgName } = params;
+  const due = params.dueDate.toISOString().slice(0, 10);
+
+  if (offsetDays < 0) {
+    const days = -offsetDays;
+    return {
+      subject: `Reminder: invoice ${invoiceNumber} is due in ${days} day${
+        days === 1 ? "" : "s"
+      }`,
+      intro: `This is a friendly reminder that invoice ${invoiceNumber} from ${orgName} is due on ${due}.`,
+    };
+  }
+
+  if (offsetDays === 0) {
+    return {
+      subject: `Reminder: invoice ${invoiceNumber} is due today`,
+      intro: `Invoice ${invoiceNumber} from ${orgName} is due today (${due}).`,
+    };
+  }
+
+  return {
+    subject: `Overdue: invoice ${invoiceNumber} is ${offsetDays} day${
+      offsetDays === 1 ? "" : "s"
+    } past due`,
+    intro: `Our records show invoice ${invoiceNumber} from ${orgName}, due on ${due}, is still unpaid. If you have already paid, please disregard this message.`,
+  };
+}
@@ -0,0 +1,516 @@
+// src/services/payments.ts
+import { PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { syncPaymentStatus } from "./invoiceLifecycle";
+import { invoiceBalance, Tx } from "./invoiceTotals";
+import { money, sumMoney, MoneyInput, ZERO } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Payments.
+ *
+ * Only completed payments count toward an invoice's balance. Pending
+ * payments (a check not yet cleared) become completed or failed; a
+ * completed payment can be reversed (bounced check, chargeback). Refunds
+ * are separate completed rows with a negative amount linked to the
+ * original payment. After every change the invoice status is re-synced,
+ * so a paid invoice reopens when money goes back out.
+ */
+
+export const PAYMENT_STATUSES = [
+  "pending",
+  "completed",
+  "failed",
+  "reversed",
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["completed", "failed"],
+  completed: ["reversed"],
+  failed: [],
+  reversed: [],
+};
+
+export function isPaymentStatus(value: unknown): value is PaymentStatus {
+  return (
+    typeof value === "string" &&
+    (PAYMENT_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Helper: re-sync the invoice status and return it with its balance.
+ */
+async function syncInvoiceAfterPayment(
+  tx: Tx,
+  params: {
+    orgId: string;
+    invoiceId: string;
+    changedById: string | null;
+    reason: string;
+  }
+) {
+  // Moves sent/overdue -> paid once the balance is cleared, and back
+  await syncPaymentStatus(tx, params);
+
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: params.invoiceId },
+    include: {
+      items: true,
+      payments: { orderBy: { paidAt: "asc" } },
+      creditNotes: true,
+      client: true,
+    },
+  });
+
+  const { balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+
+  return { invoice, balanceRemaining: balance.gt(0) ? balance : ZERO };
+}
+
+export interface InvoicePaymentParams {
+  orgId: string;
+  invoiceId: string;
+  amount: MoneyInput;
+  method: string;
+  reference?: string | null;
+  billingPartyId?: string | null;
+  paidAt?: Date;
+  // "pending" for payments that haven't cleared yet
+  status?: "pending" | "completed";
+  // Allocation of a client-level payment (see clientPayments.ts)
+  clientPaymentId?: string | null;
+  // null when recorded by the system (webhooks)
+  changedById: string | null;
+  reason?: string;
+}
+
+/**
+ * Helper: load an invoice that can take payments, or throw.
+ */
+async function findPayableInvoice(tx: Tx, orgId: string, invoiceId: string) {
+  const invoice = await tx.invoice.findFirst({
+    where: { id: invoiceId, orgId },
+    include: { payments: true, creditNotes: true },
+  });
+
+  if (!invoice) {
+    throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  }
+
+  if (invoice.status === "draft" || invoice.status === "void") {
+    throw new AppError(
+      invoice.status === "draft"
+        ? "Approve the invoice before recording payments."
+        : "Cannot record a payment on a void invoice.",
+      409,
+      "INVOICE_NOT_PAYABLE"
+    );
+  }
+
+  return invoice;
+}
+
+/**
+ * Helper: billingPartyId must belong to the client.
+ */
+async function assertBillingParty(
+  tx: Tx,
+  params: { orgId: string; clientId: string; billingPartyId?: string | null }
+) {
+  if (!params.billingPartyId) return;
+
+  const party = await tx.billingParty.findFirst({
+    where: {
+      id: params.billingPartyId,
+      clientId: params.clientId,
+      orgId: params.orgId,
+    },
+  });
+  if (!party) {
+    throw new AppError(
+      "billingPartyId is not a billing party for this client.",
+      400,
+      "INVALID_BILLING_PARTY"
+    );
+  }
+}
+
+/**
+ * Create one Payment row on an invoice and re-sync its status, inside the
+ * caller's transaction. No overpayment handling – callers cap the amount.
+ */
+export async function applyInvoicePayment(
+  tx: Tx,
+  params: InvoicePaymentParams
+) {
+  const { orgId } = params;
+  const invoice = await findPayableInvoice(tx, orgId, params.invoiceId);
+
+  await assertBillingParty(tx, {
+    orgId,
+    clientId: invoice.clientId,
+    billingPartyId: params.billingPartyId,
+  });
+
+  const payment = await tx.payment.create({
+    data: {
+      orgId,
+      invoiceId: invoice.id,
+      status: params.status ?? "completed",
+      amount: money(params.amount),
+      method: params.method,
+      reference: params.reference || null,
+      billingPartyId: params.billingPartyId ?? null,
+      clientPaymentId: params.clientPaymentId ?? null,
+      paidAt: params.paidAt ?? new Date(),
+    },
+  });
+
+  const result = await syncInvoiceAfterPayment(tx, {
+    orgId,
+    invoiceId: invoice.id,
+    changedById: params.changedById,
+    reason: params.reason ?? "Payment recorded",
+  });
+
+  return { payment, ...result };
+}
+
+/**
+ * Record a payment against an invoice and move the invoice to paid once
+ * its balance is cleared. Shared by POST /invoices/:id/mark-paid and
+ * payment webhooks so both apply the same rules.
+ *
+ * A completed payment larger than the balance is recorded as a client
+ * payment: the balance is allocated to this invoice and the rest is held
+ * as unapplied credit for the client's next invoices. `payment` is null
+ * when nothing was left to allocate. A pending payment is recorded in
+ * full and split the same way when it clears.
+ */
+export async function recordInvoicePayment(params: InvoicePaymentParams) {
+  const { orgId } = params;
+  const amount = money(params.amount);
+
+  // Payment + status change commit together
+  return prisma.$transaction(async (tx) => {
+    const invoice = await findPayableInvoice(tx, orgId, params.invoiceId);
+    const { balance } = invoiceBalance(
+      invoice.totalAmount,
+      invoice.payments,
+      invoice.creditNotes
+    );
+
+    if (params.status === "pending" || amount.lte(balance)) {
+      const result = await applyInvoicePayment(tx, params);
+      return { ...result, clientPayment: null, unappliedCredit: ZERO };
+    }
+
+    await assertBillingParty(tx, {
+      orgId,
+      clientId: invoice.clientId,
+      billingPartyId: params.billingPartyId,
+    });
+
+    const clientPayment = await tx.clientPayment.create({
+      data: {
+        orgId,
+        clientId: invoice.clientId,
+        billingPartyId: params.billingPartyId ?? null,
+        amount,
+        // The overpayment was made in the invoice's currency
+        currency: invoice.currency,
+        method: params.method,
+        reference: params.reference || null,
+        receivedAt: params.paidAt ?? new Date(),
+        notes: `Overpayment on invoice ${invoice.id}`,
+        createdById: params.changedById,
+      },
+    });
+
+    const applied = balance.gt(0) ? balance : ZERO;
+
+    if (applied.isZero()) {
+      const result = await syncInvoiceAfterPayment(tx, {
+        orgId,
+        invoiceId: invoice.id,
+        changedById: params.changedById,
+        reason: params.reason ?? "Payment recorded",
+      });
+      return {
+        payment: null,
+        ...result,
+        clientPayment,
+        unappliedCredit: amount,
+      };
+    }
+
+    const result = await applyInvoicePayment(tx, {
+      ...params,
+      amount: applied,
+      clientPaymentId: clientPayment.id,
+    });
+
+    return {
+      ...result,
+      clientPayment,
+      unappliedCredit: amount.minus(applied),
+    };
+  });
+}
+
+/**
+ * Helper: load a payment in the org, or 404.
+ */
+async function findPayment(tx: Tx, orgId: string, paymentId: string) {
+  const payment = await tx.payment.findFirst({
+    where: { id: paymentId, orgId },
+    include: { refunds: true },
+  });
+
+  if (!payment) {
+    throw new AppError("Payment not found", 404, "PAYMENT_NOT_FOUND");
+  }
+  return payment;
+}
+
+export interface PaymentStatusChange {
+  orgId: string;
+  paymentId: string;
+  status: PaymentStatus;
+  reason?: string | null;
+  changedById: string | null;
+}
+
+/**
+ * Move a payment to a new status: confirm or fail a pending payment, or
+ * reverse a completed one (bounced check, chargeback).
+ *
+ * An allocation of a client payment can't be failed or reversed on its
+ * own: its amount would go back to the client's unapplied credit and be
+ * applied again. The client payment is reversed instead (or the
+ * allocation unapplied) through /api/client-payments.
+ */
+export async function changePaymentStatus(params: PaymentStatusChange) {
+  return prisma.$transaction(async (tx) => {
+    const payment = await findPayment(tx, params.orgId, params.paymentId);
+
+    const { clientPaymentId } = payment;
+    if (clientPaymentId && params.status !== "completed") {
+      throw new AppError(
+        `This payment is an allocation of client payment ${clientPaymentId}; ` +
+          `reverse it with POST /api/client-payments/${clientPaymentId}/reverse.`,
+        409,
+        "PAYMENT_IS_ALLOCATION"
+      );
+    }
+
+    return changePaymentStatusTx(tx, params);
+  });
+}
+
+/**
+ * changePaymentStatus inside the caller's transaction.
+ */
+export async function changePaymentStatusTx(
+  tx: Tx,
+  params: PaymentStatusChange
+) {
+  const { orgId, status: to } = params;
+
+  const payment = await findPayment(tx, orgId, params.paymentId);
+  const from = payment.status;
+
+  if (
+    payment.kind !== "payment" ||
+    !isPaymentStatus(from) ||
+    !PAYMENT_TRANSITIONS[from].includes(to)
+  ) {
+    throw new AppError(
+      `Payment cannot move from "${from}" to "${to}".`,
+      409,
+      "INVALID_PAYMENT_TRANSITION"
+    );
+  }
+
+  if (
+    to === "reversed" &&
+    payment.refunds.some((r) => r.status === "completed")
+  ) {
+    throw new AppError(
+      "This payment has refunds; it can't also be reversed.",
+      409,
+      "PAYMENT_HAS_REFUNDS"
+    );
+  }
+
+  const overpayment =
+    from === "pending" && to === "completed" && !payment.clientPaymentId
+      ? await splitClearedOverpayment(tx, payment, params.changedById)
+      : null;
+
+  const updated = await tx.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: to,
+      statusChangedAt: new Date(),
+      ...(params.reason !== undefined ? { reason: params.reason } : {}),
+      ...(overpayment
+        ? {
+            amount: overpayment.applied,
+            clientPaymentId: overpayment.clientPayment.id,
+          }
+        : {}),
+    },
+  });
+
+  const result = await syncInvoiceAfterPayment(tx, {
+    orgId,
+    invoiceId: payment.invoiceId,
+    changedById: params.changedById,
+    reason:
+      to === "completed"
+        ? "Payment cleared"
+        : to === "failed"
+        ? "Payment failed"
+        : "Payment reversed",
+  });
+
+  return {
+    payment: updated,
+    ...result,
+    clientPayment: overpayment?.clientPayment ?? null,
+    unappliedCredit: overpayment ? overpayment.unapplied : ZERO,
+  };
+}
+
+/**
+ * Helper: a pending payment that clears for more than the invoice balance
+ * is split the way recordInvoicePayment splits a completed one. The full
+ * amount becomes a client payment; the payment row keeps only the balance
+ * (zero when nothing is left) as its allocation and the rest is held as
+ * unapplied credit. Null when the payment fits the balance.
+ */
+async function splitClearedOverpayment(
+  tx: Tx,
+  payment: {
+    invoiceId: string;
+    amount: MoneyInput;
+    billingPartyId: string | null;
+    method: string;
+    reference: string | null;
+    paidAt: Date;
+  },
+  changedById: string | null
+) {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: payment.invoiceId },
+    include: { payments: true, creditNotes: true },
+  });
+  const { balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+
+  const amount = money(payment.amount);
+  if (amount.lte(balance)) return null;
+
+  const clientPayment = await tx.clientPayment.create({
+    data: {
+      orgId: invoice.orgId,
+      clientId: invoice.clientId,
+      billingPartyId: payment.billingPartyId,
+      amount,
+      // The overpayment was made in the invoice's currency
+      currency: invoice.currency,
+      method: payment.method,
+      reference: payment.reference,
+      receivedAt: payment.paidAt,
+      notes: `Overpayment on invoice ${invoice.id}`,
+      createdById: changedById,
+    },
+  });
+
+  const applied = balance.gt(0) ? balance : ZERO;
+  return { clientPayment, applied, unapplied: amount.minus(applied) };
+}
+
+/**
+ * Refund all or part of a completed payment. Defaults to whatever hasn't
+ * been refunded yet.
+ */
+export async function refundPayment(params: {
+  orgId: string;
+  paymentId: string;
+  amount?: MoneyInput;
+  reason?: string | null;
+  reference?: string | null;
+  changedById: string | null;
+}) {
+  const { orgId } = params;
+
+  return prisma.$transaction(async (tx) => {
+    const payment = await findPayment(tx, orgId, params.paymentId);
+
+    if (payment.kind !== "payment" || payment.status !== "completed") {
+      throw new AppError(
+        "Only completed payments can be refunded.",
+        409,
+        "PAYMENT_NOT_REFUNDABLE"
+      );
+    }
+
+    // Refund rows are negative
+    const refunded = sumMoney(
+      payment.refunds
+        .filter((r) => r.status === "completed")
+        .map((r) => money(r.amount).abs())
+    );
+    const refundable = money(payment.amount).minus(refunded);
+    const amount =
+      params.amount === undefined || params.amount === null
+        ? refundable
+        : money(params.amount);
+
+    if (amount.lte(0) || amount.gt(refundable)) {
+      throw new AppError(
+        `Refund must be between 0.01 and ${refundable.toFixed(2)}.`,
+        409,
+        "REFUND_EXCEEDS_PAYMENT"
+      );
+    }
+
+    const refund = await tx.payment.create({
+      data: {
+        orgId,
+        invoiceId: payment.invoiceId,
+        kind: "refund",
+        refundOfId: payment.id,
+        status: "completed",
+        amount: amount.negated(),
+        method: payment.method,
+        reference: params.reference || null,
+        reason: params.reason || null,
+        billingPartyId: payment.billingPartyId,
+        paidAt: new Date(),
+      },
+    });
+
+    const result = await syncInvoiceAfterPayment(tx, {
+      orgId,
+      invoiceId: payment.invoiceId,
+      changedById: params.changedById,
+      reason: "Payment refunded",
+    });
+
+    return { refund, ...result };
+  });
+}
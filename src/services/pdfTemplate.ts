@@ -0,0 +1,285 @@
+// src/services/pdfTemplate.ts
+import { PrismaClient } from "@prisma/client";
+import QRCode from "qrcode";
+import { normalizeStoredOrgRules } from "./billingRules";
+import { loadLogoImage, loadOrgBranding, OrgBranding } from "./orgBranding";
+
+const prisma = new PrismaClient();
+
+/**
+ * Shared layout for billing documents (invoices, statements…).
+ *
+ * A DocumentTemplate is the org's branding (name, logo, brand color,
+ * footer, tax ID) plus its document settings from billingRulesJson:
+ * - invoiceLayout: "itemized" (default; one row per line with the
+ *   activity date and care manager) or "summary" (lines grouped by service)
+ * - remittanceInstructions: "How to pay" text
+ * - showTaxIdOnDocuments: print the org tax ID under its name
+ * - paymentQrCode: QR code for the online payment link (Stripe)
+ *
+ * Renderers build documents from the blocks below so every document
+ * shares the same header, section titles, tables and footer.
+ */
+
+export const INVOICE_LAYOUTS = ["itemized", "summary"] as const;
+
+export type InvoiceLayout = (typeof INVOICE_LAYOUTS)[number];
+
+export const TEXT_COLOR = "#111827"; // slate-900
+export const MUTED_COLOR = "#6B7280"; // slate-500
+const RULE_COLOR = "#CCCCCC";
+
+export const PAGE_LEFT = 50;
+export const PAGE_RIGHT = 550;
+
+export interface DocumentTemplate {
+  branding: OrgBranding;
+  logo: Buffer | null;
+  layout: InvoiceLayout;
+  remittanceInstructions: string;
+  showTaxId: boolean;
+  paymentQrCode: boolean;
+}
+
+export async function loadDocumentTemplate(
+  orgId: string
+): Promise<DocumentTemplate> {
+  const branding = await loadOrgBranding(orgId);
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { billingRulesJson: true },
+  });
+  const settings = normalizeStoredOrgRules(org?.billingRulesJson);
+
+  return {
+    branding,
+    logo: await loadLogoImage(branding.logoUrl),
+    layout: settings.invoiceLayout ?? "itemized",
+    remittanceInstructions: settings.remittanceInstructions ?? "",
+    showTaxId: settings.showTaxIdOnDocuments ?? false,
+    paymentQrCode: settings.paymentQrCode ?? false,
+  };
+}
+
+/**
+ * PNG QR code for a URL, or null when it can't be generated (the document
+ * still renders without it).
+ */
+export async function qrCodeImage(
+  url: string | null
+): Promise<Buffer | null> {
+  if (!url) return null;
+
+  try {
+    return await QRCode.toBuffer(url, { type: "png", margin: 1, width: 240 });
+  } catch (err) {
+    console.error("Error generating QR code:", err);
+    return null;
+  }
+}
+
+/**
+ * Helper: start a new page when fewer than `space` points are left.
+ */
+export function ensureSpace(
+  doc: PDFKit.PDFDocument,
+  y: number,
+  space: number
+): number {
+  if (y + space <= doc.page.height - doc.page.margins.bottom) return y;
+  doc.addPage();
+  return doc.page.margins.top;
+}
+
+/**
+ * Logo, org name (and tax ID), then the document title on the right.
+ */
+export function renderDocumentHeader(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  params: { title: string; subtitle?: string }
+) {
+  const { branding, logo } = template;
+
+  if (logo) {
+    try {
+      doc.image(logo, PAGE_LEFT, 45, { fit: [120, 50] });
+      doc.y = 100;
+    } catch (err) {
+      // Unsupported image: carry on without it
+      console.error("Error rendering org logo:", err);
+    }
+  }
+
+  doc
+    .fillColor(branding.brandColor)
+    .fontSize(18)
+    .text(branding.name, { align: "left" })
+    .moveDown(0.2);
+
+  doc.fontSize(10).fillColor(MUTED_COLOR);
+  if (template.showTaxId && branding.taxId) {
+    doc.text(`Tax ID: ${branding.taxId}`, { align: "left" });
+  }
+  if (params.subtitle) {
+    doc.text(params.subtitle, { align: "left" });
+  }
+  doc.moveDown(1);
+
+  doc
+    .fontSize(20)
+    .fillColor(branding.brandColor)
+    .text(params.title, { align: "right" })
+    .moveDown(0.5);
+
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+}
+
+export function renderSectionTitle(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  title: string
+) {
+  doc.y = ensureSpace(doc, doc.y, 60);
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor(template.branding.brandColor)
+    .text(title, PAGE_LEFT, doc.y, { underline: true })
+    .moveDown(0.3);
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+}
+
+export interface TableColumn {
+  label: string;
+  x: number;
+  width: number;
+}
+
+/**
+ * Bold column labels with a rule in the brand color. Returns the y of the
+ * first row.
+ */
+export function renderTableHeader(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  columns: TableColumn[],
+  y: number
+): number {
+  doc.font("Helvetica-Bold").fillColor(TEXT_COLOR);
+  for (const col of columns) {
+    doc.text(col.label, col.x, y, { width: col.width });
+  }
+  doc
+    .moveTo(PAGE_LEFT, y + 12)
+    .lineTo(PAGE_RIGHT, y + 12)
+    .strokeColor(template.branding.brandColor)
+    .stroke();
+  doc.font("Helvetica");
+  return y + 18;
+}
+
+/**
+ * One table row; cells wrap within their column. Returns the y of the next
+ * row.
+ */
+export function renderTableRow(
+  doc: PDFKit.PDFDocument,
+  columns: TableColumn[],
+  cells: (string | null)[],
+  y: number
+): number {
+  y = ensureSpace(doc, y, 20);
+  let bottom = y + 12;
+  columns.forEach((col, i) => {
+    const cell = cells[i];
+    if (!cell) return;
+    doc.text(cell, col.x, y, { width: col.width });
+    bottom = Math.max(bottom, doc.y);
+  });
+  // Light separator between rows
+  doc
+    .moveTo(PAGE_LEFT, bottom + 2)
+    .lineTo(PAGE_RIGHT, bottom + 2)
+    .strokeColor(RULE_COLOR)
+    .lineWidth(0.5)
+    .stroke()
+    .lineWidth(1);
+  return bottom + 6;
+}
+
+/**
+ * "How to pay": the org's remittance instructions and, when given, a QR
+ * code for the online payment link. Skipped when there is neither.
+ */
+export function renderRemittance(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  params: { reference?: string; paymentQr?: Buffer | null } = {}
+) {
+  const instructions = template.remittanceInstructions.trim();
+  const qr = params.paymentQr ?? null;
+  if (!instructions && !qr) return;
+
+  renderSectionTitle(doc, template, "How to pay");
+
+  const top = ensureSpace(doc, doc.y, qr ? 110 : 40);
+  const textWidth = qr ? 370 : PAGE_RIGHT - PAGE_LEFT;
+  doc.y = top;
+
+  if (instructions) {
+    doc.text(instructions, PAGE_LEFT, top, { width: textWidth });
+  }
+  if (params.reference) {
+    doc
+      .moveDown(0.3)
+      .text(`Please quote ${params.reference} with your payment.`, {
+        width: textWidth,
+      });
+  }
+  let bottom = doc.y;
+
+  if (qr) {
+    try {
+      doc.image(qr, PAGE_RIGHT - 90, top, { fit: [90, 90] });
+      doc
+        .fontSize(8)
+        .fillColor(MUTED_COLOR)
+        .text("Scan to pay online", PAGE_RIGHT - 90, top + 92, {
+          width: 90,
+          align: "center",
+        });
+      bottom = Math.max(bottom, doc.y);
+    } catch (err) {
+      console.error("Error rendering payment QR code:", err);
+    }
+  }
+
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+  doc.x = PAGE_LEFT;
+  doc.y = bottom + 10;
+}
+
+/**
+ * The org footer at the bottom of the current page, or `fallback` below
+ * the content when the org has none.
+ */
+export function renderDocumentFooter(
+  doc: PDFKit.PDFDocument,
+  template: DocumentTemplate,
+  fallback?: string
+) {
+  doc.font("Helvetica").fontSize(8).fillColor(MUTED_COLOR);
+
+  if (template.branding.footer) {
+    doc.text(template.branding.footer, PAGE_LEFT, doc.page.height - 80, {
+      width: PAGE_RIGHT - PAGE_LEFT,
+      align: "center",
+    });
+  } else if (fallback) {
+    doc.text(fallback, PAGE_LEFT, doc.y, {
+      width: PAGE_RIGHT - PAGE_LEFT,
+      align: "center",
+    });
+  }
+}
@@ -0,0 +1,283 @@
+// src/services/retainers.ts
+import { PrismaClient, RetainerPlan } from "@prisma/client";
+import { BillingContext } from "./billingRules";
+import type { DraftLine } from "./invoiceDrafts";
+import { decimal, money, ZERO } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Retainer (recurring) billing.
+ *
+ * A client's RetainerPlan charges a flat amount once per cycle (monthly,
+ * quarterly or annual, anchored on startDate) and includes N hours per
+ * cycle. While a plan is in force, hourly activity lines are carried on the
+ * invoice at zero ("included in retainer") and any minutes beyond the
+ * cycle's included hours are billed as a single overage line.
+ *
+ * Cycles are tracked on InvoiceItem.servicePeriodStart so a cycle's fee is
+ * billed once and its allowance is shared across invoices, even when
+ * invoice periods don't line up with cycles.
+ */
+
+export const RETAINER_CADENCES = ["monthly", "quarterly", "annual"] as const;
+export type RetainerCadence = (typeof RETAINER_CADENCES)[number];
+
+const CADENCE_MONTHS: Record<RetainerCadence, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+function cadenceMonths(cadence: string): number {
+  return CADENCE_MONTHS[cadence as RetainerCadence] ?? 1;
+}
+
+/**
+ * Helper: anchor + n months, clamping the day (Jan 31 + 1 month = Feb 28/29).
+ */
+function addMonths(anchor: Date, months: number): Date {
+  const y = anchor.getUTCFullYear();
+  const m = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      y,
+      m,
+      Math.min(anchor.getUTCDate(), lastDay),
+      anchor.getUTCHours(),
+      anchor.getUTCMinutes(),
+      anchor.getUTCSeconds(),
+      anchor.getUTCMilliseconds()
+    )
+  );
+}
+
+function cycleStart(
+  plan: Pick<RetainerPlan, "startDate" | "cadence">,
+  n: number
+): Date {
+  return addMonths(plan.startDate, n * cadenceMonths(plan.cadence));
+}
+
+/**
+ * Index of the plan cycle that contains `date` (0 = the first cycle).
+ */
+function cycleIndexFor(
+  plan: Pick<RetainerPlan, "startDate" | "cadence">,
+  date: Date
+): number {
+  const start = plan.startDate;
+  const monthsApart =
+    (date.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    (date.getUTCMonth() - start.getUTCMonth());
+
+  let n = Math.max(0, Math.floor(monthsApart / cadenceMonths(plan.cadence)));
+  // Same month but before the anchor day → previous cycle
+  while (n > 0 && cycleStart(plan, n) > date) n -= 1;
+  return n;
+}
+
+/**
+ * Start of the plan cycle that contains `date`.
+ */
+export function cycleStartFor(
+  plan: Pick<RetainerPlan, "startDate" | "cadence">,
+  date: Date
+): Date {
+  return cycleStart(plan, cycleIndexFor(plan, date));
+}
+
+/**
+ * Cycle start dates that fall inside [periodStart, periodEnd] and the plan.
+ */
+export function cycleStartsInPeriod(
+  plan: Pick<RetainerPlan, "startDate" | "endDate" | "cadence">,
+  periodStart: Date,
+  periodEnd: Date
+): Date[] {
+  const starts: Date[] = [];
+
+  for (
+    let n = cycleIndexFor(plan, periodStart), cycle = cycleStart(plan, n);
+    cycle <= periodEnd && (!plan.endDate || cycle <= plan.endDate);
+    n += 1, cycle = cycleStart(plan, n)
+  ) {
+    if (cycle >= periodStart) starts.push(cycle);
+  }
+  return starts;
+}
+
+/**
+ * The plan in force for a client during a period (latest start wins).
+ */
+export async function findRetainerPlanForPeriod(params: {
+  orgId: string;
+  clientId: string;
+  periodStart: Date;
+  periodEnd: Date;
+}) {
+  return prisma.retainerPlan.findFirst({
+    where: {
+      orgId: params.orgId,
+      clientId: params.clientId,
+      active: true,
+      startDate: { lte: params.periodEnd },
+      OR: [{ endDate: null }, { endDate: { gte: params.periodStart } }],
+    },
+    orderBy: { startDate: "desc" },
+  });
+}
+
+/**
+ * Rewrites priced activity lines for a retainer client: zeroes the hourly
+ * lines the plan covers, adds a fee line for each cycle starting in the
+ * period and an overage line per cycle whose included hours run out.
+ * Flat-rate service types and visit fees are billed as usual.
+ */
+export async function applyRetainerPlan(params: {
+  orgId: string;
+  clientId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  billingContext: BillingContext;
+  lines: DraftLine[];
+  excludeInvoiceId?: string;
+}): Promise<{ plan: RetainerPlan | null; lines: DraftLine[] }> {
+  const { periodStart, periodEnd, excludeInvoiceId } = params;
+
+  const plan = await findRetainerPlanForPeriod(params);
+  if (!plan) return { plan: null, lines: params.lines };
+
+  const inPlan = (d: Date) =>
+    d >= plan.startDate && (!plan.endDate || d <= plan.endDate);
+
+  // Other (non-void) invoices' lines for this plan
+  const otherItemsWhere = {
+    retainerPlanId: plan.id,
+    invoice: { status: { not: "void" } },
+    ...(excludeInvoiceId ? { invoiceId: { not: excludeInvoiceId } } : {}),
+  };
+
+  const lines: DraftLine[] = [];
+  const minutesByCycle = new Map<number, number>();
+
+  for (const line of params.lines) {
+    const covered =
+      line.adjustedMinutes !== null &&
+      line.activityDate !== null &&
+      inPlan(line.activityDate);
+
+    if (!covered) {
+      lines.push(line);
+      continue;
+    }
+
+    const cycle = cycleStartFor(plan, line.activityDate!);
+    minutesByCycle.set(
+      cycle.getTime(),
+      (minutesByCycle.get(cycle.getTime()) ?? 0) + line.adjustedMinutes!
+    );
+
+    lines.push({
+      ...line,
+      description: `${line.description} (included in retainer)`,
+      unitPrice: ZERO,
+      amount: ZERO,
+      retainerPlanId: plan.id,
+      servicePeriodStart: cycle,
+    });
+  }
+
+  // Fee: once per cycle that starts in this period (or has activity in it)
+  const feeCycles = new Map<number, Date>(
+    cycleStartsInPeriod(plan, periodStart, periodEnd).map((c) => [
+      c.getTime(),
+      c,
+    ])
+  );
+  for (const cycleTime of minutesByCycle.keys()) {
+    feeCycles.set(cycleTime, new Date(cycleTime));
+  }
+
+  for (const cycle of [...feeCycles.values()].sort(
+    (a, b) => a.getTime() - b.getTime()
+  )) {
+    const alreadyBilled = await prisma.invoiceItem.count({
+      where: {
+        ...otherItemsWhere,
+        kind: "retainer",
+        servicePeriodStart: cycle,
+      },
+    });
+    if (alreadyBilled) continue;
+
+    lines.push({
+      kind: "retainer",
+      activityId: null,
+      activityDate: null,
+      activitySource: null,
+      description: `${plan.name} (${plan.cadence}, from ${cycle
+        .toISOString()
+        .slice(0, 10)})`,
+      quantity: 1,
+      unitPrice: money(plan.amount),
+      amount: money(plan.amount),
+      ruleSource: "client",
+      rawMinutes: null,
+      adjustedMinutes: null,
+      retainerPlanId: plan.id,
+      servicePeriodStart: cycle,
+    });
+  }
+
+  // Overage: minutes beyond the included hours, per cycle
+  const allowance = decimal(plan.includedHours).times(60).toNumber();
+  const rate = plan.overageRate
+    ? decimal(plan.overageRate)
+    : decimal(params.billingContext.hourlyRate);
+
+  for (const [cycleTime, minutes] of minutesByCycle) {
+    const cycle = new Date(cycleTime);
+
+    const prior = await prisma.invoiceItem.aggregate({
+      where: {
+        ...otherItemsWhere,
+        kind: "activity",
+        servicePeriodStart: cycle,
+      },
+      _sum: { quantity: true },
+    });
+    const priorMinutes = Math.round((prior._sum.quantity ?? 0) * 60);
+
+    const overMinutes =
+      Math.max(0, priorMinutes + minutes - allowance) -
+      Math.max(0, priorMinutes - allowance);
+    if (overMinutes <= 0) continue;
+
+    lines.push({
+      kind: "retainer_overage",
+      activityId: null,
+      activityDate: null,
+      activitySource: null,
+      description: `Retainer overage (${decimal(
+        plan.includedHours
+      ).toString()} h included, cycle from ${cycle
+        .toISOString()
+        .slice(0, 10)})`,
+      quantity: overMinutes / 60,
+      unitPrice: rate,
+      amount: money(rate.times(overMinutes).dividedBy(60)),
+      ruleSource: plan.overageRate
+        ? "client"
+        : params.billingContext.sources.hourlyRate,
+      rawMinutes: null,
+      adjustedMinutes: overMinutes,
+      retainerPlanId: plan.id,
+      servicePeriodStart: cycle,
+    });
+  }
+
+  return { plan, lines };
+}
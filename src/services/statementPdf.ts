@@ -0,0 +1,162 @@
+// src/services/statementPdf.ts
+import { AGING_BUCKETS, AGING_BUCKET_LABELS } from "./aging";
+import { formatCurrency } from "./currency";
+import { MoneyInput } from "./money";
+import { OrgBranding } from "./orgBranding";
+import {
+  DocumentTemplate,
+  ensureSpace,
+  PAGE_LEFT,
+  renderDocumentFooter,
+  renderDocumentHeader,
+  renderRemittance,
+  renderSectionTitle,
+  renderTableHeader,
+  renderTableRow,
+  TableColumn,
+} from "./pdfTemplate";
+import { ClientStatement } from "./statements";
+
+function ymd(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Statement reference, e.g. "INV-ST-1a2b3c4d-20261031" – the org's invoice
+ * prefix, the client and the statement end date.
+ */
+export function statementNumber(
+  statement: ClientStatement,
+  branding: OrgBranding
+): string {
+  const client = statement.client.id.slice(0, 8);
+  const date = ymd(statement.to).replace(/-/g, "");
+  return `${branding.invoicePrefix}ST-${client}-${date}`;
+}
+
+/**
+ * Renders a statement of account onto a PDFKit document (caller pipes and
+ * ends it), using the org's document template like the invoice PDF.
+ */
+export function renderStatementPdf(
+  doc: PDFKit.PDFDocument,
+  statement: ClientStatement,
+  template: DocumentTemplate
+) {
+  const { branding } = template;
+  const currency = statement.currency || branding.currencyCode;
+  const amount = (value: MoneyInput) =>
+    formatCurrency(value, currency, branding.locale);
+  const reference = statementNumber(statement, branding);
+
+  // HEADER
+  renderDocumentHeader(doc, template, { title: "STATEMENT OF ACCOUNT" });
+
+  doc.text(`Statement #: ${reference}`);
+  doc.text(`Period: ${ymd(statement.from)} to ${ymd(statement.to)}`);
+  doc.moveDown(0.5);
+
+  doc.text(`Client: ${statement.client.name}`);
+  if (statement.client.billingContactName) {
+    doc.text(`Billing contact: ${statement.client.billingContactName}`);
+  }
+  if (statement.client.address) {
+    doc.text(statement.client.address);
+  }
+  doc.moveDown(1);
+
+  // SUMMARY
+  renderSectionTitle(doc, template, "Summary");
+  doc.text(`Opening balance:  ${amount(statement.openingBalance)}`);
+  doc.text(`Charges:          ${amount(statement.totalCharges)}`);
+  doc.text(`Payments/credits: ${amount(statement.totalCredits)}`);
+  doc
+    .font("Helvetica-Bold")
+    .text(`Closing balance:  ${amount(statement.closingBalance)}`);
+  doc.font("Helvetica").moveDown(1);
+
+  // ACTIVITY TABLE
+  renderSectionTitle(doc, template, "Activity");
+  doc.fontSize(9);
+
+  const columns: TableColumn[] = [
+    { label: "Date", x: 50, width: 60 },
+    { label: "Description", x: 115, width: 205 },
+    { label: "Charges", x: 330, width: 70 },
+    { label: "Credits", x: 405, width: 70 },
+    { label: "Balance", x: 480, width: 70 },
+  ];
+
+  let y = renderTableHeader(doc, template, columns, doc.y);
+
+  y = renderTableRow(
+    doc,
+    columns,
+    [
+      ymd(statement.from),
+      "Opening balance",
+      null,
+      null,
+      amount(statement.openingBalance),
+    ],
+    y
+  );
+
+  for (const entry of statement.entries) {
+    y = renderTableRow(
+      doc,
+      columns,
+      [
+        ymd(entry.date),
+        entry.description,
+        entry.charge.gt(0) ? amount(entry.charge) : null,
+        entry.credit.gt(0) ? amount(entry.credit) : null,
+        amount(entry.balance),
+      ],
+      y
+    );
+  }
+
+  if (!statement.entries.length) {
+    doc.text("No activity in this period.", columns[1].x, y);
+    y += 16;
+  }
+
+  // AGING
+  doc.fontSize(10);
+  doc.x = PAGE_LEFT;
+  doc.y = ensureSpace(doc, y + 16, 120);
+  renderSectionTitle(doc, template, "Aging");
+
+  const bucketWidth = 100;
+  y = doc.y;
+  doc.fontSize(9);
+  AGING_BUCKETS.forEach((bucket, i) => {
+    const x = PAGE_LEFT + i * bucketWidth;
+    doc.font("Helvetica").text(AGING_BUCKET_LABELS[bucket], x, y);
+    doc
+      .font("Helvetica-Bold")
+      .text(amount(statement.aging[bucket]), x, y + 12);
+  });
+  doc.x = PAGE_LEFT;
+  doc.y = y + 30;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(10)
+    .text(`Amount due: ${amount(statement.aging.total)}`);
+  doc.font("Helvetica");
+  if (statement.unappliedCredit.gt(0)) {
+    doc.text(
+      `Unapplied credit on account: ${amount(statement.unappliedCredit)}`
+    );
+  }
+  doc.moveDown(1);
+
+  // REMITTANCE
+  if (statement.aging.total.gt(0)) {
+    renderRemittance(doc, template, { reference: `statement ${reference}` });
+  }
+
+  // FOOTER
+  renderDocumentFooter(doc, template);
+}
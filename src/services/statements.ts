@@ -0,0 +1,314 @@
+// src/services/statements.ts
+import { PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import {
+  addToAging,
+  agingBucket,
+  daysPastDue,
+  emptyAging,
+  AgingBucket,
+  AgingTotals,
+} from "./aging";
+import { unappliedAmount } from "./clientPayments";
+import { displayInvoiceNumber } from "./invoiceNumbers";
+import { money, sumMoney, Money, ZERO } from "./money";
+
+const prisma = new PrismaClient();
+
+/**
+ * Client statement of account for a date window.
+ *
+ * Invoices count from the day they were issued (sentAt; drafts never
+ * appear), completed payments from paidAt and issued credit notes from
+ * issuedAt. Everything before `from` rolls into the opening balance, and
+ * aging is worked out as of `to` from each invoice's due date. Client
+ * payments not yet allocated to an invoice are shown separately as
+ * unapplied credit. A voided invoice stays in the history with a void
+ * entry on voidedAt cancelling what was left on it.
+ */
+
+export type StatementEntryType =
+  | "invoice"
+  | "payment"
+  | "credit_note"
+  | "void";
+
+export interface StatementEntry {
+  type: StatementEntryType;
+  id: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  date: Date;
+  description: string;
+  charge: Money;
+  credit: Money;
+  balance: Money;
+}
+
+export interface StatementOpenInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  issuedAt: Date;
+  dueDate: Date | null;
+  totalAmount: Money;
+  balance: Money;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+export interface ClientStatement {
+  client: {
+    id: string;
+    name: string;
+    address: string;
+    billingContactName: string;
+    billingContactEmail: string;
+  };
+  currency: string;
+  from: Date;
+  to: Date;
+  openingBalance: Money;
+  totalCharges: Money;
+  totalCredits: Money;
+  closingBalance: Money;
+  entries: StatementEntry[];
+  openInvoices: StatementOpenInvoice[];
+  aging: AgingTotals;
+  // Received on account but not yet allocated to an invoice
+  unappliedCredit: Money;
+}
+
+/**
+ * Helper: default window is the current calendar month (UTC) up to now.
+ */
+export function defaultStatementWindow(now: Date = new Date()) {
+  return {
+    from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    to: now,
+  };
+}
+
+export async function buildClientStatement(params: {
+  orgId: string;
+  clientId: string;
+  from: Date;
+  to: Date;
+}): Promise<ClientStatement> {
+  const { orgId, clientId, from, to } = params;
+
+  if (
+    Number.isNaN(from.getTime()) ||
+    Number.isNaN(to.getTime()) ||
+    from > to
+  ) {
+    throw new AppError("Invalid statement period", 400, "INVALID_PERIOD");
+  }
+
+  const [client, org] = await Promise.all([
+    prisma.client.findFirst({
+      where: { id: clientId, orgId },
+      select: {
+        id: true,
+        name: true,
+        address: true,
+        billingContactName: true,
+        billingContactEmail: true,
+        currency: true,
+      },
+    }),
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { currencyCode: true },
+    }),
+  ]);
+
+  if (!client) {
+    throw new AppError("Client not found", 404, "CLIENT_NOT_FOUND");
+  }
+
+  // Clients billed in their own currency get statements in it too
+  const { currency: clientCurrency, ...clientInfo } = client;
+  const currency = clientCurrency || org?.currencyCode || "USD";
+
+  // Everything issued up to `to`; the window split happens below
+  const invoices = await prisma.invoice.findMany({
+    where: { orgId, clientId, sentAt: { not: null, lte: to } },
+    include: {
+      payments: {
+        where: { status: "completed", paidAt: { lte: to } },
+      },
+      creditNotes: {
+        where: { status: "issued", issuedAt: { lte: to } },
+      },
+    },
+    orderBy: { sentAt: "asc" },
+  });
+
+  const clientPayments = await prisma.clientPayment.findMany({
+    // Credit in other currencies can't pay these invoices
+    where: {
+      orgId,
+      clientId,
+      currency,
+      status: "completed",
+      receivedAt: { lte: to },
+    },
+    include: { allocations: { where: { paidAt: { lte: to } } } },
+  });
+  const unappliedCredit = sumMoney(clientPayments.map(unappliedAmount));
+
+  let openingBalance = ZERO;
+  const rows: Omit<StatementEntry, "balance">[] = [];
+  const openInvoices: StatementOpenInvoice[] = [];
+  const aging = emptyAging();
+
+  for (const invoice of invoices) {
+    const invoiceNumber = displayInvoiceNumber(invoice);
+    const issuedAt = invoice.sentAt!;
+    const totalAmount = money(invoice.totalAmount);
+
+    if (issuedAt < from) {
+      openingBalance = openingBalance.plus(totalAmount);
+    } else {
+      rows.push({
+        type: "invoice",
+        id: invoice.id,
+        invoiceId: invoice.id,
+        invoiceNumber,
+        date: issuedAt,
+        description: `Invoice ${invoiceNumber} (${invoice.periodStart
+          .toISOString()
+          .slice(0, 10)} to ${invoice.periodEnd
+          .toISOString()
+          .slice(0, 10)})`,
+        charge: totalAmount,
+        credit: ZERO,
+      });
+    }
+
+    for (const payment of invoice.payments) {
+      const amount = money(payment.amount);
+      const refund = amount.lt(0);
+      if (payment.paidAt < from) {
+        openingBalance = openingBalance.minus(amount);
+        continue;
+      }
+      rows.push({
+        type: "payment",
+        id: payment.id,
+        invoiceId: invoice.id,
+        invoiceNumber,
+        date: payment.paidAt,
+        description: `${refund ? "Refund" : "Payment"} (${
+          payment.method
+        }) – ${invoiceNumber}${
+          payment.reference ? ` – Ref: ${payment.reference}` : ""
+        }`,
+        // Refunds are negative payments: money back out is a charge
+        charge: refund ? amount.negated() : ZERO,
+        credit: refund ? ZERO : amount,
+      });
+    }
+
+    for (const note of invoice.creditNotes) {
+      const amount = money(note.amount);
+      if (note.issuedAt < from) {
+        openingBalance = openingBalance.minus(amount);
+        continue;
+      }
+      rows.push({
+        type: "credit_note",
+        id: note.id,
+        invoiceId: invoice.id,
+        invoiceNumber,
+        date: note.issuedAt,
+        description: `Credit note – ${invoiceNumber}${
+          note.reason ? ` – ${note.reason}` : ""
+        }`,
+        charge: ZERO,
+        credit: amount,
+      });
+    }
+
+    const balance = totalAmount
+      .minus(sumMoney(invoice.payments.map((p) => p.amount)))
+      .minus(sumMoney(invoice.creditNotes.map((c) => c.amount)));
+
+    const voidedAt = invoice.voidedAt;
+    if (voidedAt && voidedAt <= to) {
+      // Voiding needs no payments on the invoice, so the balance is what
+      // the void cancels
+      if (voidedAt < from) {
+        openingBalance = openingBalance.minus(balance);
+      } else if (!balance.isZero()) {
+        rows.push({
+          type: "void",
+          id: invoice.id,
+          invoiceId: invoice.id,
+          invoiceNumber,
+          date: voidedAt,
+          description: `Voided – ${invoiceNumber}`,
+          charge: balance.lt(0) ? balance.negated() : ZERO,
+          credit: balance.gt(0) ? balance : ZERO,
+        });
+      }
+      continue;
+    }
+
+    if (balance.gt(0)) {
+      const dueDate = invoice.dueDate ?? issuedAt;
+      const bucket = agingBucket(dueDate, to);
+
+      openInvoices.push({
+        invoiceId: invoice.id,
+        invoiceNumber,
+        issuedAt,
+        dueDate: invoice.dueDate,
+        totalAmount,
+        balance,
+        daysPastDue: daysPastDue(dueDate, to),
+        bucket,
+      });
+      addToAging(aging, bucket, balance);
+    }
+  }
+
+  // Same-day ties: charges before the payments against them
+  const typeOrder: Record<StatementEntryType, number> = {
+    invoice: 0,
+    payment: 1,
+    credit_note: 2,
+    void: 3,
+  };
+  rows.sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() ||
+      typeOrder[a.type] - typeOrder[b.type]
+  );
+
+  let running = money(openingBalance);
+  const entries = rows.map((row) => {
+    running = running.plus(row.charge).minus(row.credit);
+    return { ...row, balance: running };
+  });
+
+  const totalCharges = sumMoney(rows.map((r) => r.charge));
+  const totalCredits = sumMoney(rows.map((r) => r.credit));
+
+  return {
+    client: clientInfo,
+    currency,
+    from,
+    to,
+    openingBalance: money(openingBalance),
+    totalCharges,
+    totalCredits,
+    closingBalance: money(
+      openingBalance.plus(totalCharges).minus(totalCredits)
+    ),
+    entries,
+    openInvoices,
+    aging,
+    unappliedCredit,
+  };
+}
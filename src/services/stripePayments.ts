@@ -0,0 +1,343 @@
+// src/services/stripePayments.ts
+import crypto from "crypto";
+import Stripe from "stripe";
+import jwt from "jsonwebtoken";
+import { PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { displayInvoiceNumber } from "./invoiceNumbers";
+import { invoiceBalance } from "./invoiceTotals";
+import { decimal, money, Money, MoneyInput } from "./money";
+import { recordInvoicePayment } from "./payments";
+
+const prisma = new PrismaClient();
+
+/**
+ * Stripe Checkout for invoices.
+ *
+ * Env:
+ * - STRIPE_SECRET_KEY: enables Stripe (unset = disabled)
+ * - STRIPE_WEBHOOK_SECRET: signing secret for /api/stripe/webhook
+ * - STRIPE_PUBLISHABLE_KEY: passed to the frontend via /api/stripe/config
+ * - STRIPE_API_BASE: optional API URL override, e.g. http://localhost:12111
+ *   to run against stripe-mock
+ * - APP_URL: frontend base URL for Checkout success/cancel redirects
+ * - API_URL: public base URL of this API, used in emailed payment links
+ * - PAYMENT_LINK_SECRET: signs payment links (default: derived from
+ *   JWT_SECRET). Never the login secret itself, so a link can't be used
+ *   as a login token.
+ *
+ * A Checkout Session is created per payment attempt for the invoice's
+ * outstanding balance; the invoice and org ids travel in its metadata and
+ * the webhook records the payment when the session completes. Emails carry
+ * a signed payment link instead of a session URL, since sessions expire;
+ * opening the link creates a session on the spot.
+ */
+
+// Currencies Stripe takes in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  "bif",
+  "clp",
+  "djf",
+  "gnf",
+  "jpy",
+  "kmf",
+  "krw",
+  "mga",
+  "pyg",
+  "rwf",
+  "ugx",
+  "vnd",
+  "vuv",
+  "xaf",
+  "xof",
+  "xpf",
+]);
+
+let stripeClient: Stripe | null | undefined;
+
+export function getStripe(): Stripe | null {
+  if (stripeClient !== undefined) return stripeClient;
+
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    stripeClient = null;
+    return stripeClient;
+  }
+
+  const config: Stripe.StripeConfig = {};
+  if (process.env.STRIPE_API_BASE) {
+    const base = new URL(process.env.STRIPE_API_BASE);
+    config.host = base.hostname;
+    config.protocol = base.protocol === "http:" ? "http" : "https";
+    if (base.port) config.port = base.port;
+  }
+
+  stripeClient = new Stripe(secretKey, config);
+  return stripeClient;
+}
+
+export function isStripeEnabled(): boolean {
+  return getStripe() !== null;
+}
+
+function minorUnitFactor(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase()) ? 1 : 100;
+}
+
+/**
+ * Helper: Money → Stripe integer amount (cents for most currencies).
+ */
+export function toStripeAmount(amount: MoneyInput, currency: string): number {
+  return money(amount).times(minorUnitFactor(currency)).round().toNumber();
+}
+
+/**
+ * Helper: Stripe integer amount → Money.
+ */
+export function fromStripeAmount(amount: number, currency: string): Money {
+  return money(decimal(amount).dividedBy(minorUnitFactor(currency)));
+}
+
+function appUrl(): string {
+  return (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+function apiUrl(): string {
+  return (
+    process.env.API_URL || `http://localhost:${process.env.PORT || 4000}`
+  ).replace(/\/$/, "");
+}
+
+const PAYMENT_LINK_PURPOSE = "invoice_payment";
+
+function paymentLinkSecret(): string {
+  if (process.env.PAYMENT_LINK_SECRET) return process.env.PAYMENT_LINK_SECRET;
+  return crypto
+    .createHmac("sha256", process.env.JWT_SECRET || "secret")
+    .update(PAYMENT_LINK_PURPOSE)
+    .digest("hex");
+}
+
+/**
+ * Payment link for an invoice email (GET /api/stripe/pay/:token), or null
+ * when Stripe is off.
+ */
+export function invoicePaymentLink(params: {
+  orgId: string;
+  invoiceId: string;
+}): string | null {
+  if (!isStripeEnabled()) return null;
+
+  const token = jwt.sign(
+    {
+      orgId: params.orgId,
+      invoiceId: params.invoiceId,
+      purpose: PAYMENT_LINK_PURPOSE,
+    },
+    paymentLinkSecret(),
+    { expiresIn: "180d" }
+  );
+  return `${apiUrl()}/api/stripe/pay/${token}`;
+}
+
+/**
+ * Helper: the invoice a payment link token points at.
+ */
+export function verifyPaymentLinkToken(token: string): {
+  orgId: string;
+  invoiceId: string;
+} {
+  try {
+    const decoded = jwt.verify(token, paymentLinkSecret()) as any;
+    if (
+      decoded?.purpose === PAYMENT_LINK_PURPOSE &&
+      typeof decoded.orgId === "string" &&
+      typeof decoded.invoiceId === "string"
+    ) {
+      return { orgId: decoded.orgId, invoiceId: decoded.invoiceId };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new AppError(
+    "This payment link is invalid or has expired.",
+    400,
+    "INVALID_PAYMENT_LINK"
+  );
+}
+
+/**
+ * Checkout Session for an invoice's outstanding balance. Only sent and
+ * overdue invoices with something left to pay qualify.
+ */
+export async function createInvoiceCheckoutSession(params: {
+  orgId: string;
+  invoiceId: string;
+  successUrl?: string;
+  cancelUrl?: string;
+}): Promise<{ id: string; url: string | null; amount: Money }> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new AppError(
+      "Stripe is not configured on this environment.",
+      503,
+      "STRIPE_NOT_CONFIGURED"
+    );
+  }
+
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: params.invoiceId, orgId: params.orgId },
+    include: {
+      client: true,
+      payments: true,
+      creditNotes: true,
+      org: { select: { name: true } },
+    },
+  });
+
+  if (!invoice) {
+    throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  }
+
+  if (invoice.status !== "sent" && invoice.status !== "overdue") {
+    throw new AppError(
+      `Invoice is ${invoice.status}; only sent or overdue invoices can be paid online.`,
+      409,
+      "INVOICE_NOT_PAYABLE"
+    );
+  }
+
+  const { balance } = invoiceBalance(
+    invoice.totalAmount,
+    invoice.payments,
+    invoice.creditNotes
+  );
+
+  if (balance.lte(0)) {
+    throw new AppError(
+      "Invoice has no outstanding balance.",
+      409,
+      "INVOICE_ALREADY_PAID"
+    );
+  }
+
+  const currency = (invoice.currency || "USD").toLowerCase();
+  const invoiceNumber = displayInvoiceNumber(invoice);
+  const metadata = { orgId: invoice.orgId, invoiceId: invoice.id };
+  const invoiceUrl = `${appUrl()}/invoices/${invoice.id}`;
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    client_reference_id: invoice.id,
+    customer_email: invoice.client.billingContactEmail || undefined,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency,
+          unit_amount: toStripeAmount(balance, currency),
+          product_data: {
+            name: `Invoice ${invoiceNumber}`,
+            description: `${invoice.org.name} – ${invoice.client.name}`,
+          },
+        },
+      },
+    ],
+    metadata,
+    payment_intent_data: { metadata },
+    success_url: params.successUrl || `${invoiceUrl}?payment=success`,
+    cancel_url: params.cancelUrl || `${invoiceUrl}?payment=cancelled`,
+  });
+
+  return { id: session.id, url: session.url, amount: balance };
+}
+
+export interface StripeEventResult {
+  handled: boolean;
+  detail?: string;
+  paymentId?: string;
+  clientPaymentId?: string;
+}
+
+/**
+ * Record the payment for a completed Checkout Session. Deliveries are
+ * retried by Stripe, so a session whose payment is already on file is a
+ * no-op.
+ */
+async function recordCheckoutPayment(
+  session: Stripe.Checkout.Session,
+  paidAt: Date
+): Promise<StripeEventResult> {
+  const orgId = session.metadata?.orgId;
+  const invoiceId = session.metadata?.invoiceId;
+
+  if (!orgId || !invoiceId) {
+    return { handled: false, detail: "Session is not for an invoice." };
+  }
+
+  if (session.payment_status !== "paid") {
+    return { handled: false, detail: "Session is not paid yet." };
+  }
+
+  const reference =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id ?? session.id;
+
+  // An overpayment is held as a client payment with the same reference
+  const [existing, existingCredit] = await Promise.all([
+    prisma.payment.findFirst({
+      where: { orgId, invoiceId, reference },
+      select: { id: true },
+    }),
+    prisma.clientPayment.findFirst({
+      where: { orgId, reference },
+      select: { id: true },
+    }),
+  ]);
+  if (existing || existingCredit) {
+    return {
+      handled: true,
+      detail: "Payment already recorded.",
+      paymentId: existing?.id,
+      clientPaymentId: existingCredit?.id,
+    };
+  }
+
+  const currency = session.currency ?? "usd";
+  const { payment, clientPayment } = await recordInvoicePayment({
+    orgId,
+    invoiceId,
+    amount: fromStripeAmount(session.amount_total ?? 0, currency),
+    method: "card",
+    reference,
+    paidAt,
+    changedById: null,
+    reason: "Stripe payment",
+  });
+
+  return {
+    handled: true,
+    paymentId: payment?.id,
+    clientPaymentId: clientPayment?.id,
+  };
+}
+
+/**
+ * Apply a verified Stripe event. Unknown event types are acknowledged and
+ * ignored.
+ */
+export async function handleStripeEvent(
+  event: Stripe.Event
+): Promise<StripeEventResult> {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded":
+      return recordCheckoutPayment(
+        event.data.object,
+        new Date(event.created * 1000)
+      );
+    default:
+      return { handled: false, detail: `Ignored event ${event.type}.` };
+  }
+}
@@ -0,0 +1,218 @@
+// src/services/webhookEvents.ts
+import Stripe from "stripe";
+import { Prisma, PrismaClient, WebhookEvent } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { EmailEvent, handleEmailEvent } from "./invoiceDelivery";
+import { handleStripeEvent } from "./stripePayments";
+
+const prisma = new PrismaClient();
+
+/**
+ * Webhook event log.
+ *
+ * Every verified provider event is stored before it is applied, keyed on
+ * (provider, providerEventId). Processing first claims the row by moving
+ * it to "processing", so a duplicate or concurrent delivery of the same
+ * event is a no-op. Failed events keep the error and can be replayed from
+ * the stored payload.
+ */
+
+export const WEBHOOK_EVENT_STATUSES = [
+  "received",
+  "processing",
+  "processed",
+  "ignored",
+  "failed",
+] as const;
+
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+export function isWebhookEventStatus(
+  value: unknown
+): value is WebhookEventStatus {
+  return (
+    typeof value === "string" &&
+    (WEBHOOK_EVENT_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+export type WebhookProvider = "stripe" | "email";
+
+// handled: false = valid event we have nothing to do for ("ignored")
+type ProviderHandler = (
+  payload: unknown
+) => Promise<{ handled: boolean; detail?: string }>;
+
+const HANDLERS: Record<WebhookProvider, ProviderHandler> = {
+  stripe: (payload) => handleStripeEvent(payload as Stripe.Event),
+  email: (payload) => handleEmailEvent(payload as EmailEvent),
+};
+
+// Statuses a delivery or replay may pick an event up from
+const CLAIMABLE_STATUSES: WebhookEventStatus[] = ["received", "failed"];
+
+export interface WebhookProcessResult {
+  event: WebhookEvent;
+  duplicate: boolean;
+  // Client error (e.g. invoice voided meanwhile): retrying won't help
+  permanentFailure?: boolean;
+}
+
+/**
+ * Helper: the org an event belongs to, from the object's metadata. Only
+ * kept when the org exists, since the column is a foreign key.
+ */
+async function eventOrgId(payload: any): Promise<string | null> {
+  const orgId = payload?.data?.object?.metadata?.orgId;
+  if (typeof orgId !== "string" || !orgId) return null;
+
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { id: true },
+  });
+  return org?.id ?? null;
+}
+
+/**
+ * Store a verified event (or find the stored copy of a redelivery).
+ */
+export async function recordWebhookEvent(params: {
+  provider: WebhookProvider;
+  providerEventId: string;
+  type: string;
+  payload: unknown;
+  // Known org (e.g. looked up by the caller); otherwise read from metadata
+  orgId?: string | null;
+}): Promise<WebhookEvent> {
+  const where = {
+    provider_providerEventId: {
+      provider: params.provider,
+      providerEventId: params.providerEventId,
+    },
+  };
+
+  const existing = await prisma.webhookEvent.findUnique({ where });
+  if (existing) return existing;
+
+  try {
+    return await prisma.webhookEvent.create({
+      data: {
+        provider: params.provider,
+        providerEventId: params.providerEventId,
+        type: params.type,
+        payload: params.payload as Prisma.InputJsonValue,
+        orgId: params.orgId ?? (await eventOrgId(params.payload)),
+      },
+    });
+  } catch (err) {
+    // Concurrent delivery stored it first
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return prisma.webhookEvent.findUniqueOrThrow({ where });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Claim and apply a stored event. Returns duplicate: true when the event
+ * was already processed (or is being processed) by another delivery.
+ */
+export async function processWebhookEvent(
+  eventId: string
+): Promise<WebhookProcessResult> {
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: { id: eventId, status: { in: CLAIMABLE_STATUSES } },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+
+  if (!claimed.count) {
+    const event = await prisma.webhookEvent.findUniqueOrThrow({
+      where: { id: eventId },
+    });
+    return { event, duplicate: true };
+  }
+
+  const event = await prisma.webhookEvent.findUniqueOrThrow({
+    where: { id: eventId },
+  });
+  const handler = HANDLERS[event.provider as WebhookProvider];
+
+  try {
+    if (!handler) {
+      throw new AppError(
+        `No handler for provider "${event.provider}"`,
+        422,
+        "UNKNOWN_PROVIDER"
+      );
+    }
+
+    const result = await handler(event.payload);
+
+    const updated = await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: result.handled ? "processed" : "ignored",
+        result: result as unknown as Prisma.InputJsonValue,
+        lastError: null,
+        processedAt: new Date(),
+      },
+    });
+    return { event: updated, duplicate: false };
+  } catch (err) {
+    const updated = await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: "failed",
+        lastError: err instanceof Error ? err.message : String(err),
+      },
+    });
+
+    console.error(`Error processing webhook event ${event.id}:`, err);
+
+    return {
+      event: updated,
+      duplicate: false,
+      permanentFailure: err instanceof AppError && err.statusCode < 500,
+    };
+  }
+}
+
+/**
+ * Admin replay of a failed event (or one stuck in "received"). Events
+ * stuck in "processing" after a crash can be forced.
+ */
+export async function replayWebhookEvent(params: {
+  orgId: string;
+  eventId: string;
+  force?: boolean;
+}): Promise<WebhookProcessResult> {
+  const event = await prisma.webhookEvent.findFirst({
+    where: { id: params.eventId, orgId: params.orgId },
+  });
+
+  if (!event) {
+    throw new AppError(
+      "Webhook event not found",
+      404,
+      "WEBHOOK_EVENT_NOT_FOUND"
+    );
+  }
+
+  if (params.force && event.status === "processing") {
+    await prisma.webhookEvent.updateMany({
+      where: { id: event.id, status: "processing" },
+      data: { status: "failed", lastError: "Replay forced by admin" },
+    });
+  } else if (!(CLAIMABLE_STATUSES as string[]).includes(event.status)) {
+    throw new AppError(
+      `Webhook event is ${event.status}; only failed or received events can be replayed.`,
+      409,
+      "WEBHOOK_EVENT_NOT_REPLAYABLE"
+    );
+  }
+
+  return processWebhookEvent(event.id);
+}